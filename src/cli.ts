@@ -0,0 +1,393 @@
+#!/usr/bin/env node
+import { createHash, randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+// Relative imports: the compiled CLI runs without a path-alias loader
+import { AccessibilityScanner } from './services/AccessibilityScanner';
+import { getAxeOptionsService } from './services/AxeOptionsService';
+import { getBrowserPool } from './services/BrowserPool';
+import { InboundEmailService } from './services/InboundEmailService';
+import { ReportService } from './services/ReportService';
+import { SampleService } from './services/SampleService';
+import { getScoringService } from './services/ScoringService';
+import { AccessibilityScore, AxeRunOptions, ImpactLevel, ResolvedAxeOptions, ScanHistoryRecord, WcagLevel, WcagVersion } from './types';
+
+type OutputFormat = 'text' | 'json' | 'sarif';
+type FailOn = ImpactLevel | 'none';
+
+interface CliOptions {
+  patterns: string[];
+  emlFiles: string[];
+  samples: string[];
+  allSamples: boolean;
+  format: OutputFormat;
+  output?: string;
+  failOn: FailOn;
+  minScore?: number;
+  axe: AxeRunOptions;
+}
+
+interface ScanTarget {
+  label: string;
+  /** File the target is read from. */
+  path: string;
+  /** Whether the scanned HTML is the file itself, so results can be given line numbers. */
+  isSource: boolean;
+  load: () => Promise<{ html: string; plainText?: string; subject?: string }>;
+}
+
+interface CliScan {
+  record: ScanHistoryRecord;
+  path: string;
+  source: string | null;
+  score?: AccessibilityScore;
+  passed: boolean;
+}
+
+const OUTPUT_FORMATS: OutputFormat[] = ['text', 'json', 'sarif'];
+// Most severe first; --fail-on fails at the given impact and above
+const IMPACTS: ImpactLevel[] = ['critical', 'serious', 'moderate', 'minor'];
+const EXIT_PASSED = 0;
+const EXIT_THRESHOLD = 1;
+const EXIT_ERROR = 2;
+
+const USAGE = `Usage: access-time scan [options] [files or globs...]
+
+Scans HTML files, .eml messages or library samples for accessibility issues.
+
+Inputs:
+  <files or globs>         HTML files, e.g. "emails/**/*.html"
+  --eml <file>             Scan an RFC 822 message (repeatable)
+  --sample <id>            Scan a sample from the sample library (repeatable)
+  --samples                Scan every sample in the library
+
+Output:
+  --format <format>        text (default), json or sarif
+  --output <file>          Write the report to a file instead of stdout
+
+Thresholds:
+  --fail-on <impact>       Fail on violations of this impact or worse:
+                           critical, serious, moderate, minor or none (default)
+  --min-score <score>      Fail when a scan scores below this (0-100)
+
+Rules:
+  --preset <name>          Rule preset from config/rule-presets.json
+  --wcag-level <level>     A, AA or AAA
+  --wcag-version <version> 2.0, 2.1 or 2.2
+  --include-rules <ids>    Comma-separated rule ids to add
+  --exclude-rules <ids>    Comma-separated rule ids to skip
+  --selector <selector>    Limit the scan to a region of the email
+
+Exit codes: 0 passed, 1 threshold breached, 2 usage or scan error.`;
+
+class UsageError extends Error {}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    patterns: [],
+    emlFiles: [],
+    samples: [],
+    allSamples: false,
+    format: 'text',
+    failOn: 'none',
+    axe: {}
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) {
+      options.patterns.push(arg);
+      continue;
+    }
+
+    // Accept both "--flag value" and "--flag=value"
+    const [flag, inline] = arg.split(/=(.*)/s, 2);
+    const value = (): string => {
+      const next = inline !== undefined ? inline : argv[++i];
+      if (next === undefined || next === '') throw new UsageError(`${flag} requires a value`);
+      return next;
+    };
+    const list = () => value().split(',').map(item => item.trim()).filter(Boolean);
+
+    switch (flag) {
+      case '--eml': options.emlFiles.push(value()); break;
+      case '--sample': options.samples.push(value()); break;
+      case '--samples': options.allSamples = true; break;
+      case '--output': options.output = value(); break;
+      case '--format': {
+        const format = value() as OutputFormat;
+        if (!OUTPUT_FORMATS.includes(format)) throw new UsageError(`--format must be one of: ${OUTPUT_FORMATS.join(', ')}`);
+        options.format = format;
+        break;
+      }
+      case '--fail-on': {
+        const failOn = value() as FailOn;
+        if (failOn !== 'none' && !IMPACTS.includes(failOn)) throw new UsageError(`--fail-on must be one of: ${IMPACTS.join(', ')}, none`);
+        options.failOn = failOn;
+        break;
+      }
+      case '--min-score': {
+        const minScore = Number(value());
+        if (!Number.isFinite(minScore) || minScore < 0 || minScore > 100) throw new UsageError('--min-score must be between 0 and 100');
+        options.minScore = minScore;
+        break;
+      }
+      case '--preset': options.axe.preset = value(); break;
+      case '--wcag-level': options.axe.wcagLevel = value() as WcagLevel; break;
+      case '--wcag-version': options.axe.wcagVersion = value() as WcagVersion; break;
+      case '--include-rules': options.axe.includeRules = list(); break;
+      case '--exclude-rules': options.axe.excludeRules = list(); break;
+      case '--selector': options.axe.selector = value(); break;
+      default:
+        throw new UsageError(`Unknown option: ${flag}`);
+    }
+  }
+
+  return options;
+}
+
+/**
+ * Expands a file pattern. `*` and `?` match within a path segment and `**`
+ * matches any number of directories; patterns without wildcards are returned
+ * as they are.
+ */
+function expandPattern(pattern: string): string[] {
+  if (!/[*?]/.test(pattern)) {
+    if (!fs.existsSync(pattern)) throw new UsageError(`File not found: ${pattern}`);
+    return [pattern];
+  }
+
+  const segments = pattern.split(/[\\/]/);
+  const firstWildcard = segments.findIndex(segment => /[*?]/.test(segment));
+  const base = segments.slice(0, firstWildcard).join('/') || '.';
+  const source = segments.slice(firstWildcard).map(segment => segment === '**'
+    ? '(?:[^/]+/)*'
+    : `${segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]')}/`
+  ).join('').replace(/\/$/, '');
+  const matcher = new RegExp(`^${source}$`);
+
+  const matches: string[] = [];
+  const walk = (directory: string, relative: string) => {
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(directory, { withFileTypes: true });
+    } catch (error) {
+      return;
+    }
+
+    entries.forEach(entry => {
+      if (entry.name === 'node_modules' || entry.name === '.git') return;
+      const entryRelative = relative ? `${relative}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        walk(path.join(directory, entry.name), entryRelative);
+      } else if (matcher.test(entryRelative)) {
+        matches.push(base === '.' ? entryRelative : `${base}/${entryRelative}`);
+      }
+    });
+  };
+  walk(base, '');
+
+  return matches.sort();
+}
+
+async function collectTargets(options: CliOptions): Promise<ScanTarget[]> {
+  const targets: ScanTarget[] = [];
+
+  const files = Array.from(new Set(options.patterns.flatMap(expandPattern)));
+  if (options.patterns.length > 0 && files.length === 0) {
+    throw new UsageError(`No files match: ${options.patterns.join(' ')}`);
+  }
+  files.forEach(file => targets.push({
+    label: file,
+    path: file,
+    isSource: true,
+    load: async () => ({ html: await fs.promises.readFile(file, 'utf-8') })
+  }));
+
+  const inbound = new InboundEmailService();
+  options.emlFiles.forEach(file => targets.push({
+    label: file,
+    path: file,
+    isSource: false,
+    load: async () => {
+      const email = inbound.parse('message/rfc822', await fs.promises.readFile(file), null);
+      if (!email || !email.html) throw new Error(`${file} has no HTML or text part`);
+      return { html: email.html, plainText: email.text, subject: email.subject };
+    }
+  }));
+
+  if (options.allSamples || options.samples.length > 0) {
+    const sampleService = new SampleService();
+    const library = await sampleService.loadSamples();
+    const unknown = options.samples.filter(id => !library.some(sample => sample.id === id));
+    if (unknown.length > 0) throw new UsageError(`Unknown samples: ${unknown.join(', ')}`);
+
+    library
+      .filter(sample => options.allSamples || options.samples.includes(sample.id))
+      .forEach(sample => targets.push({
+        label: `sample:${sample.id}`,
+        path: sampleService.samplePath(sample.file),
+        isSource: true,
+        load: async () => ({ html: await sampleService.getSampleContent(sample.id), subject: sample.name })
+      }));
+  }
+
+  return targets;
+}
+
+function breaches(record: ScanHistoryRecord, score: AccessibilityScore | undefined, options: CliOptions): boolean {
+  if (record.result.error) return true;
+  if (options.minScore !== undefined && (score?.score ?? 0) < options.minScore) return true;
+  if (options.failOn === 'none') return false;
+
+  const threshold = IMPACTS.indexOf(options.failOn);
+  return (record.result.violations || []).some(violation => {
+    const rank = IMPACTS.indexOf(violation.impact as ImpactLevel);
+    // Unknown impacts count as minor, as in scoring
+    return (rank === -1 ? IMPACTS.length - 1 : rank) <= threshold;
+  });
+}
+
+function renderText(scans: CliScan[], options: CliOptions): string {
+  const color = process.stdout.isTTY && !process.env.NO_COLOR && !options.output;
+  const paint = (code: number, text: string) => color ? `\x1b[${code}m${text}\x1b[0m` : text;
+  const lines: string[] = [];
+
+  scans.forEach(({ record, score, passed }) => {
+    const violations = record.result.violations || [];
+    const status = passed ? paint(32, 'PASS') : paint(31, 'FAIL');
+    const grade = score ? `  score ${score.score}/100 (${score.grade})` : '';
+    lines.push(`${status} ${record.file}${grade}  ${record.result.error ? `error: ${record.result.error.split('\n')[0]}` : `${violations.length} violations`}`);
+
+    violations.forEach(violation => {
+      lines.push(`     ${(violation.impact || 'unknown').padEnd(9)} ${violation.id.padEnd(30)} ${violation.help} (${violation.nodes?.length || 0} elements)`);
+    });
+  });
+
+  const failed = scans.filter(scan => !scan.passed).length;
+  const thresholds = [
+    options.failOn !== 'none' ? `fail on ${options.failOn}` : '',
+    options.minScore !== undefined ? `min score ${options.minScore}` : ''
+  ].filter(Boolean).join(', ');
+  lines.push('', `${scans.length} scanned: ${scans.length - failed} passed, ${failed} failed${thresholds ? ` (${thresholds})` : ''}`);
+
+  return `${lines.join('\n')}\n`;
+}
+
+async function renderOutput(scans: CliScan[], options: CliOptions, reportService: ReportService): Promise<string> {
+  switch (options.format) {
+    case 'sarif':
+      return `${reportService.renderSarifLog(scans.map(scan => ({ record: scan.record, html: scan.source, file: scan.path })))}\n`;
+
+    case 'json': {
+      const reports = await Promise.all(scans.map(async scan => ({
+        file: scan.record.file,
+        passed: scan.passed,
+        ...JSON.parse((await reportService.render('json', scan.record, null)).body as string)
+      })));
+      return `${JSON.stringify({
+        passed: scans.every(scan => scan.passed),
+        failOn: options.failOn,
+        minScore: options.minScore,
+        scans: reports
+      }, null, 2)}\n`;
+    }
+
+    default:
+      return renderText(scans, options);
+  }
+}
+
+async function scan(argv: string[]): Promise<number> {
+  const options = parseArgs(argv);
+  const targets = await collectTargets(options);
+  if (targets.length === 0) {
+    throw new UsageError('Nothing to scan: pass files, --eml or --sample');
+  }
+
+  const axeResolution = getAxeOptionsService().resolve(options.axe);
+  if (!axeResolution.valid) {
+    throw new UsageError(axeResolution.message);
+  }
+  const axeOptions: ResolvedAxeOptions | undefined = Object.keys(axeResolution.options).length > 0 ? axeResolution.options : undefined;
+
+  const scanner = new AccessibilityScanner();
+  const scoringService = getScoringService();
+  const reportService = new ReportService();
+
+  // Scans share the browser pool, which bounds how many run at once
+  const scans = await Promise.all(targets.map(async (target): Promise<CliScan> => {
+    const startTime = Date.now();
+    let html = '';
+    let subject: string | undefined;
+    let result;
+    try {
+      const input = await target.load();
+      html = input.html;
+      subject = input.subject;
+      result = await scanner.scanHtml({ html, plainText: input.plainText, axeOptions });
+    } catch (error) {
+      result = { violations: [], passes: [], incomplete: [], inapplicable: [], error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+
+    const record: ScanHistoryRecord = {
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      source: 'cli',
+      durationMs: Date.now() - startTime,
+      htmlHash: createHash('sha256').update(html).digest('hex'),
+      htmlLength: html.length,
+      subject,
+      file: target.label,
+      result
+    };
+    const score = scoringService.score(result);
+
+    return { record, path: target.path, source: target.isSource ? html : null, score, passed: !breaches(record, score, options) };
+  }));
+
+  const output = await renderOutput(scans, options, reportService);
+  if (options.output) {
+    await fs.promises.writeFile(options.output, output, 'utf-8');
+  } else {
+    process.stdout.write(output);
+  }
+
+  if (scans.some(scan => scan.record.result.error)) return EXIT_ERROR;
+  return scans.every(scan => scan.passed) ? EXIT_PASSED : EXIT_THRESHOLD;
+}
+
+async function main(): Promise<void> {
+  dotenv.config();
+
+  // Service logs go to stderr so stdout only carries the report
+  console.log = console.error;
+  console.info = console.error;
+
+  const [command, ...args] = process.argv.slice(2);
+
+  if (!command || command === 'help' || command === '--help' || command === '-h') {
+    process.stderr.write(`${USAGE}\n`);
+    process.exitCode = command ? EXIT_PASSED : EXIT_ERROR;
+    return;
+  }
+
+  try {
+    if (command !== 'scan') {
+      throw new UsageError(`Unknown command: ${command}`);
+    }
+    process.exitCode = await scan(args);
+  } catch (error) {
+    if (error instanceof UsageError) {
+      process.stderr.write(`${error.message}\n\n${USAGE}\n`);
+    } else {
+      process.stderr.write(`Scan failed: ${error instanceof Error ? error.message : 'Unknown error'}\n`);
+    }
+    process.exitCode = EXIT_ERROR;
+  } finally {
+    await getBrowserPool().shutdown();
+  }
+}
+
+main();
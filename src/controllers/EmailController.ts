@@ -1,23 +1,297 @@
 import { Request, Response } from 'express';
-import { MailHogService } from '@/services/MailHogService';
-import { EmailResponse } from '@/types';
+import { InboxProvider, getInbox } from '@/services/InboxProvider';
+import { AccessibilityScanner } from '@/services/AccessibilityScanner';
+import { ScanHistoryService, getScanHistory } from '@/services/ScanHistoryService';
+import { AxeOptionsService, getAxeOptionsService } from '@/services/AxeOptionsService';
+import { ScoringService, getScoringService } from '@/services/ScoringService';
+import { EmailUploadService } from '@/services/EmailUploadService';
+import { EmailListQuery, EmailResponse, ResolvedAxeOptions, UploadedEmail, UploadedEmailScan } from '@/types';
+
+const MAX_UPLOAD_FILES = 20;
 
 export class EmailController {
-  private mailHogService: MailHogService;
+  private inbox: InboxProvider;
+  private scanner: AccessibilityScanner;
+  private scanHistory: ScanHistoryService;
+  private axeOptionsService: AxeOptionsService;
+  private scoringService: ScoringService;
+  private emailUploadService: EmailUploadService;
 
   constructor() {
-    this.mailHogService = new MailHogService();
+    this.inbox = getInbox();
+    this.scanner = new AccessibilityScanner();
+    this.scanHistory = getScanHistory();
+    this.axeOptionsService = getAxeOptionsService();
+    this.scoringService = getScoringService();
+    this.emailUploadService = new EmailUploadService();
   }
 
   async checkForEmails(req: Request, res: Response): Promise<void> {
     try {
-      const emailData = await this.mailHogService.checkForEmails();
+      const emailData: EmailResponse = await this.inbox.checkForEmails();
       res.json(emailData);
     } catch (error) {
       console.error('Email check error:', error);
-      res.status(500).json({ 
-        error: `Failed to fetch emails: ${error instanceof Error ? error.message : 'Unknown error'}` 
+      res.status(500).json({
+        error: `Failed to fetch emails: ${error instanceof Error ? error.message : 'Unknown error'}`
       });
     }
   }
+
+  async listEmails(req: Request, res: Response): Promise<void> {
+    try {
+      const { start = '0', limit = '20', from, to, subject } = req.query as Record<string, string | undefined>;
+
+      const query: EmailListQuery = {
+        start: Number(start),
+        limit: Number(limit),
+        from,
+        to,
+        subject
+      };
+
+      if (!Number.isInteger(query.start) || query.start < 0) {
+        res.status(400).json({ error: 'Invalid request', message: 'start must be a non-negative integer' });
+        return;
+      }
+
+      if (!Number.isInteger(query.limit) || query.limit < 1 || query.limit > 100) {
+        res.status(400).json({ error: 'Invalid request', message: 'limit must be an integer between 1 and 100' });
+        return;
+      }
+
+      const emails = await this.inbox.listEmails(query);
+      res.json(emails);
+    } catch (error) {
+      console.error('List emails error:', error);
+      res.status(500).json({
+        error: `Failed to list emails: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+  }
+
+  async getEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const email = await this.inbox.getEmail(req.params.id);
+
+      if (!email) {
+        res.status(404).json({ error: 'Email not found', id: req.params.id });
+        return;
+      }
+
+      res.json(email);
+    } catch (error) {
+      console.error('Get email error:', error);
+      res.status(500).json({
+        error: `Failed to get email: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+  }
+
+  async deleteEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const deleted = await this.inbox.deleteEmail(req.params.id);
+
+      if (!deleted) {
+        res.status(404).json({ error: 'Email not found', id: req.params.id });
+        return;
+      }
+
+      res.json({ deleted: true, id: req.params.id });
+    } catch (error) {
+      console.error('Delete email error:', error);
+      res.status(500).json({
+        error: `Failed to delete email: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+  }
+
+  async scanEmail(req: Request, res: Response): Promise<void> {
+    try {
+      const axeResolution = this.axeOptionsService.resolve(req.body || {});
+      if (!axeResolution.valid) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: axeResolution.message,
+          validOptions: axeResolution.validOptions,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+      const axeOptions = Object.keys(axeResolution.options).length > 0 ? axeResolution.options : undefined;
+
+      const emailData = await this.inbox.getEmailData(req.params.id);
+
+      if (!emailData) {
+        res.status(404).json({ error: 'Email not found', id: req.params.id });
+        return;
+      }
+
+      if (!emailData.htmlContent || emailData.htmlContent.trim().length === 0) {
+        res.status(422).json({
+          error: 'Email has no content to scan',
+          id: req.params.id,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const startTime = Date.now();
+      const results = await this.scanner.scanHtml({
+        html: emailData.htmlContent,
+        plainText: emailData.textContent,
+        axeOptions
+      });
+      const duration = Date.now() - startTime;
+
+      let scanId: string | undefined;
+      try {
+        const record = await this.scanHistory.record({
+          html: emailData.htmlContent,
+          result: results,
+          durationMs: duration,
+          source: 'email',
+          emailId: emailData.emailId,
+          subject: emailData.subject
+        });
+        scanId = record.id;
+      } catch (historyError) {
+        console.error('Failed to record scan history:', historyError);
+      }
+
+      res.json({
+        ...results,
+        metadata: {
+          scanId,
+          score: this.scoringService.score(results),
+          emailId: emailData.emailId,
+          subject: emailData.subject,
+          scanDuration: duration,
+          timestamp: new Date().toISOString(),
+          htmlLength: emailData.htmlContent.length,
+          axeOptions
+        }
+      });
+    } catch (error) {
+      console.error('Scan email error:', error);
+      res.status(500).json({
+        error: 'Scan failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Scans .eml files uploaded as multipart/form-data. Axe options can be sent
+   * as text fields of the same form.
+   */
+  async uploadEmails(req: Request, res: Response): Promise<void> {
+    try {
+      const form = Buffer.isBuffer(req.body)
+        ? this.emailUploadService.readForm(req.get('Content-Type') || '', req.body)
+        : null;
+
+      if (!form || form.files.length === 0) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Upload one or more .eml files as multipart/form-data',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (form.files.length > MAX_UPLOAD_FILES) {
+        res.status(413).json({
+          error: 'Payload too large',
+          message: `At most ${MAX_UPLOAD_FILES} files can be uploaded at once`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const unsupported = form.files.filter(file => !this.emailUploadService.isEmlFile(file));
+      if (unsupported.length > 0) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: `Only .eml files are accepted: ${unsupported.map(file => file.filename).join(', ')}`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const axeResolution = this.axeOptionsService.resolve(this.axeOptionsService.fromStringFields(form.fields));
+      if (!axeResolution.valid) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: axeResolution.message,
+          validOptions: axeResolution.validOptions,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+      const axeOptions = Object.keys(axeResolution.options).length > 0 ? axeResolution.options : undefined;
+
+      console.log('Scanning uploaded emails', {
+        files: form.files.map(file => file.filename),
+        timestamp: new Date().toISOString()
+      });
+
+      // Scans share the browser pool, which bounds how many run at once
+      const emails = await Promise.all(form.files.map(file =>
+        this.scanUploadedEmail(this.emailUploadService.parse(file), axeOptions)
+      ));
+
+      res.json({
+        emails,
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Upload email error:', error);
+      res.status(500).json({
+        error: 'Scan failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  private async scanUploadedEmail(email: UploadedEmail, axeOptions?: ResolvedAxeOptions): Promise<UploadedEmailScan> {
+    const html = email.htmlContent || '';
+    if (!html.trim()) {
+      return { ...email, error: 'Email has no content to scan' };
+    }
+
+    const startTime = Date.now();
+    const result = await this.scanner.scanHtml({ html, plainText: email.textContent, axeOptions });
+    const duration = Date.now() - startTime;
+
+    let scanId: string | undefined;
+    try {
+      const record = await this.scanHistory.record({
+        html,
+        result,
+        durationMs: duration,
+        source: 'upload',
+        emailId: email.emailId,
+        subject: email.subject
+      });
+      scanId = record.id;
+    } catch (historyError) {
+      console.error('Failed to record scan history:', historyError);
+    }
+
+    return {
+      ...email,
+      result,
+      metadata: {
+        scanId,
+        score: this.scoringService.score(result),
+        scanDuration: duration,
+        htmlLength: html.length,
+        axeOptions
+      },
+      error: result.error
+    };
+  }
 }
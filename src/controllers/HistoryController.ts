@@ -0,0 +1,113 @@
+import { Request, Response } from 'express';
+import { ScanHistoryService, getScanHistory } from '@/services/ScanHistoryService';
+import { ScanHistoryQuery } from '@/types';
+
+const IMPACTS = ['critical', 'serious', 'moderate', 'minor'];
+
+export class HistoryController {
+  private scanHistory: ScanHistoryService;
+
+  constructor() {
+    this.scanHistory = getScanHistory();
+  }
+
+  async listHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { from, to, subject, ruleId, impact, page = '1', pageSize = '20' } = req.query as Record<string, string | undefined>;
+
+      const query: ScanHistoryQuery = {
+        subject,
+        ruleId,
+        impact,
+        page: Number(page),
+        pageSize: Number(pageSize)
+      };
+
+      if (!Number.isInteger(query.page) || query.page < 1) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'page must be a positive integer',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (!Number.isInteger(query.pageSize) || query.pageSize < 1 || query.pageSize > 100) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'pageSize must be an integer between 1 and 100',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (impact && !IMPACTS.includes(impact)) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: `impact must be one of: ${IMPACTS.join(', ')}`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (from) {
+        query.from = new Date(from);
+        if (isNaN(query.from.getTime())) {
+          res.status(400).json({
+            error: 'Invalid request',
+            message: 'from must be a valid date',
+            timestamp: new Date().toISOString()
+          });
+          return;
+        }
+      }
+
+      if (to) {
+        query.to = new Date(to);
+        if (isNaN(query.to.getTime())) {
+          res.status(400).json({
+            error: 'Invalid request',
+            message: 'to must be a valid date',
+            timestamp: new Date().toISOString()
+          });
+          return;
+        }
+      }
+
+      const history = await this.scanHistory.query(query);
+      res.json(history);
+    } catch (error) {
+      console.error('List history error:', error);
+      res.status(500).json({
+        error: 'Failed to load scan history',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  async getHistoryEntry(req: Request, res: Response): Promise<void> {
+    try {
+      const entry = await this.scanHistory.get(req.params.id);
+
+      if (!entry) {
+        res.status(404).json({
+          error: 'Scan not found',
+          message: `No scan in the history has id ${req.params.id}`,
+          id: req.params.id,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      res.json({ ...entry.record, html: entry.html });
+    } catch (error) {
+      console.error('Get history entry error:', error);
+      res.status(500).json({
+        error: 'Failed to load scan',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+}
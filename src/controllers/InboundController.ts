@@ -0,0 +1,74 @@
+import { Request, Response } from 'express';
+import { InboundEmailService } from '@/services/InboundEmailService';
+import { EmailListenerService, getEmailListener } from '@/services/EmailListenerService';
+
+export class InboundController {
+  private inboundEmailService: InboundEmailService;
+  private emailListener: EmailListenerService;
+
+  constructor() {
+    this.inboundEmailService = new InboundEmailService();
+    this.emailListener = getEmailListener();
+  }
+
+  async receive(req: Request, res: Response): Promise<void> {
+    try {
+      if (!this.inboundEmailService.isEnabled()) {
+        res.status(503).json({
+          error: 'Inbound webhook disabled',
+          message: 'Set INBOUND_WEBHOOK_SECRET to accept inbound emails',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const rawBody: Buffer = Buffer.isBuffer(req.body) ? req.body : (req as any).rawBody || Buffer.alloc(0);
+
+      if (!this.inboundEmailService.verifySignature(rawBody, req.get('X-Inbound-Signature'))) {
+        res.status(401).json({
+          error: 'Invalid signature',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const email = this.inboundEmailService.parse(req.get('Content-Type') || '', rawBody, req.body);
+
+      if (!email) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'Payload must be a raw RFC 822 message or contain html, text or raw MIME fields',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (!email.html.trim()) {
+        res.status(422).json({
+          error: 'Email has no content to scan',
+          id: email.id,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      this.emailListener.enqueue(this.inboundEmailService.toEmailData(email));
+
+      res.status(202).json({
+        id: email.id,
+        from: email.from,
+        to: email.to,
+        subject: email.subject,
+        queued: this.emailListener.getPendingCount(),
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      console.error('Inbound email error:', error);
+      res.status(500).json({
+        error: 'Failed to accept inbound email',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import { Request, Response } from 'express';
+import { ScanHistoryService, getScanHistory } from '@/services/ScanHistoryService';
+import { REPORT_FORMATS, ReportService } from '@/services/ReportService';
+import { REPORT_TEMPLATE_NAMES } from '@/services/ReportTemplates';
+import { ReportFormat, ReportTemplate } from '@/types';
+
+export class ReportController {
+  private scanHistory: ScanHistoryService;
+  private reportService: ReportService;
+
+  constructor() {
+    this.scanHistory = getScanHistory();
+    this.reportService = new ReportService();
+  }
+
+  async getReport(req: Request, res: Response): Promise<void> {
+    try {
+      const { format = 'json', download, template = 'detailed' } = req.query as Record<string, string | undefined>;
+
+      if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: `format must be one of: ${REPORT_FORMATS.join(', ')}`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (!REPORT_TEMPLATE_NAMES.includes(template as ReportTemplate)) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: `template must be one of: ${REPORT_TEMPLATE_NAMES.join(', ')}`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const entry = await this.scanHistory.get(req.params.id);
+
+      if (!entry) {
+        res.status(404).json({
+          error: 'Scan not found',
+          message: `No scan in the history has id ${req.params.id}`,
+          id: req.params.id,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const report = await this.reportService.render(
+        format as ReportFormat,
+        entry.record,
+        entry.html,
+        template as ReportTemplate
+      );
+
+      res.setHeader('Content-Type', report.contentType);
+      res.setHeader(
+        'Content-Disposition',
+        `${download === 'false' ? 'inline' : 'attachment'}; filename="${report.fileName}"`
+      );
+      res.send(report.body);
+    } catch (error) {
+      console.error('Report error:', error);
+      res.status(500).json({
+        error: 'Failed to render report',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Serves a stored PNG: `full` for the whole email, or the `screenshotIndex`
+   * of a violating node.
+   */
+  async getScreenshot(req: Request, res: Response): Promise<void> {
+    try {
+      const { nodeIndex } = req.params;
+
+      if (nodeIndex !== 'full' && !/^\d+$/.test(nodeIndex)) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'nodeIndex must be a non-negative integer or "full"',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const image = await this.scanHistory.getScreenshot(req.params.id, nodeIndex === 'full' ? 'full' : Number(nodeIndex));
+
+      if (!image) {
+        res.status(404).json({
+          error: 'Screenshot not found',
+          message: nodeIndex === 'full'
+            ? `Scan ${req.params.id} has no full-page screenshot`
+            : `Scan ${req.params.id} has no screenshot for node ${nodeIndex}`,
+          id: req.params.id,
+          nodeIndex,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      res.setHeader('Content-Type', 'image/png');
+      res.send(image);
+    } catch (error) {
+      console.error('Screenshot error:', error);
+      res.status(500).json({
+        error: 'Failed to load screenshot',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+}
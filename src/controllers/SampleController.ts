@@ -1,16 +1,21 @@
 import { Request, Response } from 'express';
 import { SampleService } from '@/services/SampleService';
+import { SampleVerificationService } from '@/services/SampleVerificationService';
+import { SampleInput } from '@/types';
 
 export class SampleController {
   private sampleService: SampleService;
+  private sampleVerificationService: SampleVerificationService;
 
   constructor() {
     this.sampleService = new SampleService();
+    this.sampleVerificationService = new SampleVerificationService(undefined, this.sampleService);
   }
 
   async getSamples(req: Request, res: Response): Promise<void> {
     try {
-      const samples = await this.sampleService.loadSamples();
+      const { tag, q } = req.query as Record<string, string | undefined>;
+      const samples = await this.sampleService.loadSamples({ tag, q });
       res.json({ emailSamples: samples });
     } catch (error) {
       console.error('Get samples error:', error);
@@ -64,6 +69,145 @@ export class SampleController {
     }
   }
 
+  async verifySamples(req: Request, res: Response): Promise<void> {
+    try {
+      const { ids, tolerance = 0 }: { ids?: string[]; tolerance?: number } = req.body || {};
+
+      if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== 'string'))) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'ids must be an array of sample ids',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (!Number.isInteger(tolerance) || tolerance < 0) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'tolerance must be a non-negative integer',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const samples = await this.sampleService.loadSamples();
+      const unknownIds = (ids || []).filter(id => !samples.some(sample => sample.id === id));
+      if (unknownIds.length > 0) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: `Unknown sample ids: ${unknownIds.join(', ')}`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const selected = ids ? samples.filter(sample => ids.includes(sample.id)) : samples;
+      const report = await this.sampleVerificationService.verify(selected, tolerance);
+
+      console.log('Sample verification completed', {
+        total: report.total,
+        passed: report.passedCount,
+        failed: report.failedCount
+      });
+
+      res.json(report);
+    } catch (error) {
+      console.error('Verify samples error:', error);
+      res.status(500).json({
+        error: `Failed to verify samples: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+  }
+
+  async createSample(req: Request, res: Response): Promise<void> {
+    try {
+      const input: SampleInput = req.body;
+      const validationError = this.sampleService.validate(req.params.id, input, false);
+      if (validationError) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: validationError,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const sample = await this.sampleService.createSample(req.params.id, input);
+
+      if (!sample) {
+        res.status(409).json({
+          error: 'Sample already exists',
+          id: req.params.id,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      res.status(201).json(sample);
+    } catch (error) {
+      console.error('Create sample error:', error);
+      res.status(500).json({
+        error: `Failed to create sample: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+  }
+
+  async updateSample(req: Request, res: Response): Promise<void> {
+    try {
+      const input: SampleInput = req.body;
+      const validationError = this.sampleService.validate(req.params.id, input, true);
+      if (validationError) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: validationError,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const sample = await this.sampleService.updateSample(req.params.id, input);
+
+      if (!sample) {
+        res.status(404).json({
+          error: 'Sample not found',
+          id: req.params.id,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      res.json(sample);
+    } catch (error) {
+      console.error('Update sample error:', error);
+      res.status(500).json({
+        error: `Failed to update sample: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+  }
+
+  async deleteSample(req: Request, res: Response): Promise<void> {
+    try {
+      const deleted = await this.sampleService.deleteSample(req.params.id);
+
+      if (!deleted) {
+        res.status(404).json({
+          error: 'Sample not found',
+          id: req.params.id,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      res.json({ id: req.params.id, deleted: true });
+    } catch (error) {
+      console.error('Delete sample error:', error);
+      res.status(500).json({
+        error: `Failed to delete sample: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+  }
+
   async handleSampleAction(req: Request, res: Response): Promise<void> {
     try {
       const { sampleId, action } = req.body;
@@ -1,20 +1,78 @@
 import { Request, Response } from 'express';
 import { AccessibilityScanner } from '@/services/AccessibilityScanner';
-import { MailHogService } from '@/services/MailHogService';
-import { ScanRequest, ScanResult } from '@/types';
+import { InboxProvider, getInbox } from '@/services/InboxProvider';
+import { ScanHistoryService, getScanHistory } from '@/services/ScanHistoryService';
+import { ScanDiffService } from '@/services/ScanDiffService';
+import { getEmailClientProfile, listEmailClientProfiles } from '@/services/EmailClientProfiles';
+import { AxeOptionsService, getAxeOptionsService } from '@/services/AxeOptionsService';
+import { ScoringService, getScoringService } from '@/services/ScoringService';
+import { ReportService } from '@/services/ReportService';
+import { FixSuggestionService } from '@/services/FixSuggestionService';
+import { BatchScanService } from '@/services/BatchScanService';
+import { REPORT_TEMPLATE_NAMES, listReportTemplates, renderDiffReport } from '@/services/ReportTemplates';
+import {
+  AccessibilityScore,
+  BatchScanItem,
+  BatchScanRequest,
+  ColorMode,
+  OutgoingAttachment,
+  ResolvedAxeOptions,
+  ScanDiffRequest,
+  ScanFixRequest,
+  ScanOutput,
+  ScanRequest,
+  ScanResult,
+  ViolationScreenshots
+} from '@/types';
+
+const COLOR_MODES: ColorMode[] = ['light', 'dark', 'inverted'];
+const MAX_RECIPIENTS = 20;
+const EMAIL_ADDRESS = /^[^\s@<>,;"]+@[^\s@<>,;"]+\.[^\s@<>,;"]+$/;
+
+type ReportDelivery = Pick<ScanRequest, 'recipients' | 'cc' | 'reportTemplate'>;
+
+interface DiffSide {
+  result?: ScanResult;
+  scanId?: string;
+  status?: number;
+  message?: string;
+}
 
 export class ScanController {
   private scanner: AccessibilityScanner;
-  private mailHogService: MailHogService;
+  private inbox: InboxProvider;
+  private scanHistory: ScanHistoryService;
+  private scanDiffService: ScanDiffService;
+  private axeOptionsService: AxeOptionsService;
+  private scoringService: ScoringService;
+  private reportService: ReportService;
+  private fixSuggestionService: FixSuggestionService;
+  private batchScanService: BatchScanService;
 
   constructor() {
     this.scanner = new AccessibilityScanner();
-    this.mailHogService = new MailHogService();
+    this.inbox = getInbox();
+    this.scanHistory = getScanHistory();
+    this.scanDiffService = new ScanDiffService();
+    this.axeOptionsService = getAxeOptionsService();
+    this.scoringService = getScoringService();
+    this.reportService = new ReportService();
+    this.fixSuggestionService = new FixSuggestionService(this.scanner);
+    this.batchScanService = new BatchScanService(this.scanner);
   }
 
   async scanHtml(req: Request, res: Response): Promise<void> {
     try {
-      const { html, sendEmail = false }: ScanRequest = req.body;
+      const {
+        html,
+        sendEmail = false,
+        profiles,
+        colorModes,
+        recipients,
+        cc,
+        reportTemplate,
+        screenshots = process.env.SCAN_SCREENSHOTS === 'true'
+      }: ScanRequest = req.body;
       
       // Validate input
       if (!html || typeof html !== 'string') {
@@ -45,27 +103,125 @@ export class ScanController {
         return;
       }
 
+      const deliveryError = this.validateDelivery({ recipients, cc, reportTemplate });
+      if (deliveryError) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: deliveryError,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+      const delivery: ReportDelivery = { recipients, cc, reportTemplate };
+
+      if (typeof screenshots !== 'boolean') {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'screenshots must be a boolean',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const axeResolution = this.axeOptionsService.resolve(req.body);
+      if (!axeResolution.valid) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: axeResolution.message,
+          validOptions: axeResolution.validOptions,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+      const axeOptions = Object.keys(axeResolution.options).length > 0 ? axeResolution.options : undefined;
+
+      if (colorModes !== undefined) {
+        if (!Array.isArray(colorModes) || colorModes.length === 0 || colorModes.some(mode => !COLOR_MODES.includes(mode))) {
+          res.status(400).json({
+            error: 'Invalid request',
+            message: `colorModes must be a non-empty array of: ${COLOR_MODES.join(', ')}`,
+            timestamp: new Date().toISOString()
+          });
+          return;
+        }
+
+        if (profiles !== undefined) {
+          res.status(400).json({
+            error: 'Invalid request',
+            message: 'colorModes cannot be combined with profiles; use the dark-mode profile instead',
+            timestamp: new Date().toISOString()
+          });
+          return;
+        }
+      }
+
+      if (profiles !== undefined) {
+        if (!Array.isArray(profiles) || profiles.length === 0) {
+          res.status(400).json({
+            error: 'Invalid request',
+            message: 'profiles must be a non-empty array of profile names',
+            timestamp: new Date().toISOString()
+          });
+          return;
+        }
+
+        const unknownProfiles = profiles.filter(name => typeof name !== 'string' || !getEmailClientProfile(name));
+        if (unknownProfiles.length > 0) {
+          res.status(400).json({
+            error: 'Invalid request',
+            message: `Unknown email client profiles: ${unknownProfiles.join(', ')}`,
+            availableProfiles: listEmailClientProfiles().map(profile => profile.name),
+            timestamp: new Date().toISOString()
+          });
+          return;
+        }
+
+        await this.scanProfiles(res, html, Array.from(new Set(profiles)), sendEmail, delivery, axeOptions);
+        return;
+      }
+
       console.log('Starting accessibility scan', {
         htmlLength: html.length,
         sendEmail: sendEmail || false,
+        colorModes,
         timestamp: new Date().toISOString()
       });
 
       const startTime = Date.now();
-      const results: ScanResult = await this.scanner.scanHtml({ html, sendEmail });
+      // Screenshots are taken of single scans only; merged color modes have no one page to show
+      const output: ScanOutput = colorModes
+        ? { result: await this.scanner.scanColorModes({ html, sendEmail, axeOptions }, Array.from(new Set(colorModes))) }
+        : await this.scanner.scanWithScreenshots({ html, sendEmail, axeOptions, screenshots });
+      const results = output.result;
       const duration = Date.now() - startTime;
+      const score = this.scoringService.score(results);
 
       console.log('Accessibility scan completed', {
         duration: `${duration}ms`,
+        score: score?.score,
         violationsCount: results.violations?.length || 0,
         passesCount: results.passes?.length || 0,
         incompleteCount: results.incomplete?.length || 0,
         inapplicableCount: results.inapplicable?.length || 0
       });
 
+      let scanId: string | undefined;
+      try {
+        const record = await this.scanHistory.record({
+          html,
+          result: results,
+          durationMs: duration,
+          source: 'api',
+          screenshots: output.screenshots
+        });
+        scanId = record.id;
+      } catch (historyError) {
+        console.error('Failed to record scan history:', historyError);
+      }
+
       if (sendEmail) {
         try {
-          await this.sendReportEmail(results, html);
+          await this.sendReportEmail(results, html, score, delivery, output.screenshots);
           console.log('Report email sent successfully');
         } catch (emailError) {
           console.error('Failed to send report email:', emailError);
@@ -76,9 +232,12 @@ export class ScanController {
       res.json({
         ...results,
         metadata: {
+          scanId,
+          score,
           scanDuration: duration,
           timestamp: new Date().toISOString(),
           htmlLength: html.length,
+          axeOptions,
           emailSent: sendEmail
         }
       });
@@ -96,169 +255,493 @@ export class ScanController {
     }
   }
 
-  private async sendReportEmail(results: ScanResult, originalHtml: string): Promise<void> {
-    const timestamp = new Date().toISOString();
-    const violationsCount = results.violations?.length || 0;
-    const passesCount = results.passes?.length || 0;
-    const incompleteCount = results.incomplete?.length || 0;
-    const inapplicableCount = results.inapplicable?.length || 0;
-
-    const htmlReport = this.generateHtmlReport(results, originalHtml, timestamp);
-    
-    await this.mailHogService.sendEmail(
-      process.env.DEFAULT_TO_EMAIL!,
-      `Accessibility Scan Report - ${violationsCount} Issues Found`,
-      htmlReport
-    );
+  getProfiles(req: Request, res: Response): void {
+    res.json({ profiles: listEmailClientProfiles() });
   }
 
-  private generateHtmlReport(results: ScanResult, originalHtml: string, timestamp: string): string {
-    const violationsCount = results.violations?.length || 0;
-    const passesCount = results.passes?.length || 0;
-    const incompleteCount = results.incomplete?.length || 0;
-    const inapplicableCount = results.inapplicable?.length || 0;
-
-    return `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="UTF-8">
-      <title>Accessibility Scan Report</title>
-      <style>
-        body { 
-          font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif; 
-          line-height: 1.6; 
-          color: #333; 
-          max-width: 800px; 
-          margin: 0 auto; 
-          padding: 20px; 
-        }
-        .header {
-          background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-          color: white;
-          padding: 20px;
-          border-radius: 8px;
-          text-align: center;
-          margin-bottom: 30px;
-        }
-        .summary {
-          display: grid;
-          grid-template-columns: repeat(auto-fit, minmax(150px, 1fr));
-          gap: 15px;
-          margin-bottom: 30px;
+  getPresets(req: Request, res: Response): void {
+    res.json({
+      presets: this.axeOptionsService.listPresets(),
+      rules: this.axeOptionsService.getValidRuleIds(),
+      reportTemplates: listReportTemplates()
+    });
+  }
+
+  private async scanProfiles(
+    res: Response,
+    html: string,
+    profiles: string[],
+    sendEmail: boolean,
+    delivery: ReportDelivery,
+    axeOptions?: ResolvedAxeOptions
+  ): Promise<void> {
+    console.log('Starting accessibility scan with email client profiles', {
+      htmlLength: html.length,
+      profiles,
+      sendEmail,
+      timestamp: new Date().toISOString()
+    });
+
+    const startTime = Date.now();
+    const results = await this.scanner.scanWithProfiles({ html, axeOptions }, profiles);
+    const duration = Date.now() - startTime;
+
+    const profileResults: (ScanResult & { scanId?: string; score?: AccessibilityScore })[] = [];
+    for (const result of results) {
+      const score = this.scoringService.score(result);
+      let scanId: string | undefined;
+      try {
+        const record = await this.scanHistory.record({ html, result, durationMs: duration, source: 'api' });
+        scanId = record.id;
+      } catch (historyError) {
+        console.error('Failed to record scan history:', historyError);
+      }
+
+      if (sendEmail && !result.error) {
+        try {
+          await this.sendReportEmail(result, html, score, delivery);
+        } catch (emailError) {
+          console.error('Failed to send report email:', emailError);
         }
-        .stat-card {
-          padding: 15px;
-          border-radius: 8px;
-          text-align: center;
-          color: white;
-          font-weight: bold;
+      }
+
+      profileResults.push({ ...result, scanId, score });
+    }
+
+    console.log('Profile scans completed', {
+      duration: `${duration}ms`,
+      violationsCount: results.map(result => `${result.profile}: ${result.violations?.length || 0}`)
+    });
+
+    res.json({
+      results: profileResults,
+      metadata: {
+        scanDuration: duration,
+        timestamp: new Date().toISOString(),
+        htmlLength: html.length,
+        profiles,
+        axeOptions,
+        emailSent: sendEmail
+      }
+    });
+  }
+
+  async scanDiff(req: Request, res: Response): Promise<void> {
+    try {
+      const { baseHtml, headHtml, baseScanId, headScanId, sendEmail = false, recipients, cc }: ScanDiffRequest = req.body;
+
+      const deliveryError = this.validateDelivery({ recipients, cc });
+      if (deliveryError) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: deliveryError,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const startTime = Date.now();
+      const [base, head] = await Promise.all([
+        this.resolveDiffSide('base', baseHtml, baseScanId),
+        this.resolveDiffSide('head', headHtml, headScanId)
+      ]);
+
+      const failed = [base, head].find(side => !side.result);
+      if (failed) {
+        res.status(failed.status || 400).json({
+          error: failed.status === 404 ? 'Scan not found' : 'Invalid request',
+          message: failed.message,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const diff = this.scanDiffService.diff(base.result!, head.result!);
+      const duration = Date.now() - startTime;
+
+      console.log('Scan diff completed', {
+        duration: `${duration}ms`,
+        ...diff.summary
+      });
+
+      if (sendEmail) {
+        try {
+          const report = renderDiffReport(diff, new Date().toISOString());
+          await this.inbox.sendEmail({
+            ...this.recipientsFor({ recipients, cc }),
+            subject: `Accessibility Regression Report - ${diff.summary.new} New, ${diff.summary.fixed} Fixed`,
+            html: report.html,
+            text: report.text
+          });
+          console.log('Diff report email sent successfully');
+        } catch (emailError) {
+          console.error('Failed to send diff report email:', emailError);
         }
-        .violations { background: #ef4444; }
-        .passes { background: #10b981; }
-        .incomplete { background: #f59e0b; }
-        .inapplicable { background: #6b7280; }
-        .violation-item {
-          background: #fee2e2;
-          border-left: 4px solid #ef4444;
-          padding: 15px;
-          margin-bottom: 10px;
-          border-radius: 4px;
+      }
+
+      res.json({
+        ...diff,
+        metadata: {
+          baseScanId: base.scanId,
+          headScanId: head.scanId,
+          diffDuration: duration,
+          timestamp: new Date().toISOString(),
+          emailSent: sendEmail
         }
-        .pass-item {
-          background: #d1fae5;
-          border-left: 4px solid #10b981;
-          padding: 15px;
-          margin-bottom: 10px;
-          border-radius: 4px;
+      });
+    } catch (error) {
+      console.error('Scan diff error:', error);
+      res.status(500).json({
+        error: 'Scan diff failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  async fixHtml(req: Request, res: Response): Promise<void> {
+    try {
+      const { html }: ScanFixRequest = req.body;
+
+      if (!html || typeof html !== 'string' || html.trim().length === 0) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'HTML content is required and must be a non-empty string',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (html.length > 1024 * 1024) { // 1MB limit
+        res.status(413).json({
+          error: 'Payload too large',
+          message: 'HTML content exceeds 1MB limit',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const axeResolution = this.axeOptionsService.resolve(req.body);
+      if (!axeResolution.valid) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: axeResolution.message,
+          validOptions: axeResolution.validOptions,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+      const axeOptions = Object.keys(axeResolution.options).length > 0 ? axeResolution.options : undefined;
+
+      const startTime = Date.now();
+      const fix = await this.fixSuggestionService.fix(html, axeOptions);
+      const duration = Date.now() - startTime;
+
+      console.log('Fix suggestions completed', {
+        duration: `${duration}ms`,
+        suggestions: fix.suggestions.length,
+        ...fix.verification
+      });
+
+      res.json({
+        ...fix,
+        metadata: {
+          score: this.scoringService.score(fix.result),
+          fixDuration: duration,
+          timestamp: new Date().toISOString(),
+          axeOptions
         }
-        .code {
-          background: #f3f4f6;
-          padding: 10px;
-          border-radius: 4px;
-          font-family: Monaco, monospace;
-          font-size: 12px;
-          margin: 10px 0;
-          overflow-x: auto;
+      });
+    } catch (error) {
+      console.error('Scan fix error:', error);
+      res.status(500).json({
+        error: 'Scan fix failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Scans many emails in one request, given as JSON `items` or as a zip
+   * archive of HTML and .eml files with the scan options in the query string.
+   * With `stream` (or `Accept: text/event-stream`) progress is sent as
+   * server-sent events, ending with a `complete` event carrying the result.
+   */
+  async scanBatch(req: Request, res: Response): Promise<void> {
+    try {
+      const isArchive = Buffer.isBuffer(req.body);
+      const input: Partial<BatchScanRequest> = isArchive ? this.batchQueryOptions(req.query) : (req.body || {});
+
+      let items: BatchScanItem[];
+      let skipped: { name: string; reason: string }[] = [];
+      if (isArchive) {
+        try {
+          ({ items, skipped } = this.batchScanService.readArchive(req.body));
+        } catch (archiveError) {
+          res.status(400).json({
+            error: 'Invalid request',
+            message: `Invalid zip archive: ${archiveError instanceof Error ? archiveError.message : 'Unknown error'}`,
+            timestamp: new Date().toISOString()
+          });
+          return;
         }
-        .section {
-          margin-bottom: 30px;
+      } else {
+        const itemsError = this.validateBatchItems(input.items);
+        if (itemsError) {
+          res.status(400).json({
+            error: 'Invalid request',
+            message: itemsError,
+            timestamp: new Date().toISOString()
+          });
+          return;
         }
-        h3 { color: #374151; border-bottom: 2px solid #e5e7eb; padding-bottom: 5px; }
-      </style>
-    </head>
-    <body>
-      <div class="header">
-        <h1>🔍 Accessibility Scan Report</h1>
-        <p>Generated on ${timestamp}</p>
-      </div>
-      <div class="summary">
-        <div class="stat-card violations">
-          <div style="font-size: 24px;">${violationsCount}</div>
-          <div>Violations</div>
-        </div>
-        <div class="stat-card passes">
-          <div style="font-size: 24px;">${passesCount}</div>
-          <div>Passes</div>
-        </div>
-        <div class="stat-card incomplete">
-          <div style="font-size: 24px;">${incompleteCount}</div>
-          <div>Incomplete</div>
-        </div>
-        <div class="stat-card inapplicable">
-          <div style="font-size: 24px;">${inapplicableCount}</div>
-          <div>Inapplicable</div>
-        </div>
-      </div>
-      ${violationsCount > 0 ? `
-      <div class="section">
-        <h3>🚨 Accessibility Violations</h3>
-        ${results.violations.map((violation, index) => `
-          <div class="violation-item">
-            <strong>${violation.id}</strong> - ${violation.description}<br>
-            <small>Impact: ${violation.impact}</small>
-            ${violation.nodes ? violation.nodes.filter(node => node.failureSummary).map(node => `
-              <div class="code">${node.failureSummary}</div>
-            `).join('') : ''}
-          </div>
-        `).join('')}
-      </div>
-      ` : ''}
-      ${passesCount > 0 ? `
-      <div class="section">
-        <h3>✅ Passed Tests</h3>
-        ${results.passes.map((pass, index) => `
-          <div class="pass-item">
-            <strong>${pass.id}</strong> - ${pass.description}<br>
-            <small>Target: ${pass.nodes ? pass.nodes.map(node => node.target?.join(', ') || 'N/A').join(', ') : 'N/A'}</small>
-          </div>
-        `).join('')}
-      </div>
-      ` : ''}
-      ${incompleteCount > 0 ? `
-      <div class="section">
-        <h3>⚠️ Incomplete Tests</h3>
-        ${results.incomplete.map((incomplete) => `
-          <div class="violation-item">
-            <strong>${incomplete.id}</strong> - ${incomplete.description}<br>
-            <small>Requires manual review</small>
-          </div>
-        `).join('')}
-      </div>
-      ` : ''}
-      <div class="section">
-        <h3>📊 Raw JSON Report</h3>
-        <div class="code">${JSON.stringify(results, null, 2)}</div>
-      </div>
-      <div class="section">
-        <h3>📄 Original HTML</h3>
-        <div class="code">${originalHtml.substring(0, 500)}${originalHtml.length > 500 ? '...' : ''}</div>
-      </div>
-      <footer style="text-align: center; margin-top: 40px; padding-top: 20px; border-top: 1px solid #e5e7eb; color: #6b7280;">
-        <p>Generated by AccessTime Email Accessibility Scanner</p>
-      </footer>
-    </body>
-    </html>
-    `;
+        items = input.items!.map(({ name, html }) => ({ name: name.trim(), html }));
+      }
+
+      if (items.length === 0) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'The batch has no HTML or .eml files to scan',
+          skipped,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (items.length > this.batchScanService.maxItems) {
+        res.status(413).json({
+          error: 'Payload too large',
+          message: `A batch can have at most ${this.batchScanService.maxItems} items`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const { concurrency, stream } = input;
+      if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > this.batchScanService.maxConcurrency)) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: `concurrency must be an integer between 1 and ${this.batchScanService.maxConcurrency}`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const axeResolution = this.axeOptionsService.resolve(input);
+      if (!axeResolution.valid) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: axeResolution.message,
+          validOptions: axeResolution.validOptions,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+      const axeOptions = Object.keys(axeResolution.options).length > 0 ? axeResolution.options : undefined;
+
+      console.log('Starting batch scan', {
+        items: items.length,
+        skipped: skipped.length,
+        source: isArchive ? 'archive' : 'json',
+        concurrency,
+        timestamp: new Date().toISOString()
+      });
+
+      if (stream === true || (req.get('Accept') || '').includes('text/event-stream')) {
+        await this.streamBatch(res, items, skipped, concurrency, axeOptions);
+        return;
+      }
+
+      const result = await this.batchScanService.run(items, { axeOptions, concurrency });
+      console.log('Batch scan completed', {
+        duration: `${result.durationMs}ms`,
+        completed: result.summary.completed,
+        failed: result.summary.failed
+      });
+
+      res.json({ ...result, skipped, axeOptions });
+    } catch (error) {
+      console.error('Batch scan error:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      if (res.headersSent) {
+        res.end(`event: error\ndata: ${JSON.stringify({ message })}\n\n`);
+        return;
+      }
+
+      res.status(500).json({
+        error: 'Batch scan failed',
+        message,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  private async streamBatch(
+    res: Response,
+    items: BatchScanItem[],
+    skipped: { name: string; reason: string }[],
+    concurrency: number | undefined,
+    axeOptions?: ResolvedAxeOptions
+  ): Promise<void> {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'Access-Control-Allow-Origin': process.env.CORS_ORIGIN || 'http://localhost:3000',
+      'Access-Control-Allow-Credentials': 'true'
+    });
+    const send = (event: string, data: unknown) => {
+      if (!res.writableEnded) res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // A client that disconnects stops the batch; scans already running finish
+    const abort = new AbortController();
+    res.on('close', () => abort.abort());
+
+    send('start', { total: items.length, skipped });
+    const result = await this.batchScanService.run(items, {
+      axeOptions,
+      concurrency,
+      signal: abort.signal,
+      onProgress: progress => send('progress', progress)
+    });
+    console.log('Batch scan completed', {
+      duration: `${result.durationMs}ms`,
+      cancelled: abort.signal.aborted,
+      completed: result.summary.completed,
+      failed: result.summary.failed
+    });
+
+    send('complete', { ...result, skipped, axeOptions });
+    res.end();
+  }
+
+  /** Archive uploads carry their options in the query string. */
+  private batchQueryOptions(query: Request['query']): Partial<BatchScanRequest> {
+    return {
+      ...this.axeOptionsService.fromStringFields(query),
+      concurrency: typeof query.concurrency === 'string' ? Number(query.concurrency) : undefined,
+      stream: query.stream === 'true'
+    };
+  }
+
+  private validateBatchItems(items: unknown): string | null {
+    if (!Array.isArray(items) || items.length === 0) {
+      return 'items must be a non-empty array of { name, html } objects';
+    }
+
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+      if (!item || typeof item !== 'object') {
+        return `items[${i}] must be an object with name and html`;
+      }
+      if (typeof item.name !== 'string' || !item.name.trim() || item.name.length > 200) {
+        return `items[${i}].name must be a non-empty string of at most 200 characters`;
+      }
+      if (typeof item.html !== 'string' || !item.html.trim()) {
+        return `items[${i}].html must be a non-empty string`;
+      }
+      if (item.html.length > 1024 * 1024) {
+        return `items[${i}].html exceeds 1MB limit`;
+      }
+    }
+
+    return null;
+  }
+
+  private async resolveDiffSide(label: string, html?: string, scanId?: string): Promise<DiffSide> {
+    if (scanId) {
+      const entry = await this.scanHistory.get(scanId);
+      if (!entry) {
+        return { status: 404, message: `Stored scan ${scanId} (${label}) was not found` };
+      }
+      return { result: entry.record.result, scanId };
+    }
+
+    if (!html || typeof html !== 'string' || html.trim().length === 0) {
+      return { status: 400, message: `Either ${label}Html or ${label}ScanId is required` };
+    }
+
+    if (html.length > 1024 * 1024) {
+      return { status: 413, message: `${label}Html exceeds 1MB limit` };
+    }
+
+    const startTime = Date.now();
+    const result = await this.scanner.scanHtml({ html });
+    if (result.error) {
+      throw new Error(`Failed to scan ${label} HTML: ${result.error}`);
+    }
+
+    try {
+      const record = await this.scanHistory.record({ html, result, durationMs: Date.now() - startTime, source: 'api' });
+      return { result, scanId: record.id };
+    } catch (historyError) {
+      console.error('Failed to record scan history:', historyError);
+      return { result };
+    }
+  }
+
+  private async sendReportEmail(
+    results: ScanResult,
+    originalHtml: string,
+    score: AccessibilityScore | undefined,
+    delivery: ReportDelivery,
+    screenshots?: ViolationScreenshots
+  ): Promise<void> {
+    const violationsCount = results.violations?.length || 0;
+    // Only the detailed template shows per-node images
+    const images = delivery.reportTemplate === 'summary' ? [] : screenshots?.nodes || [];
+    const attachments: OutgoingAttachment[] = images.map((content, index) => ({
+      filename: `violation-${index}.png`,
+      contentType: 'image/png',
+      content,
+      cid: `violation-${index}@access-time`
+    }));
+    const report = this.reportService.renderEmail(results, originalHtml, {
+      timestamp: new Date().toISOString(),
+      score,
+      template: delivery.reportTemplate,
+      images: attachments.map(attachment => `cid:${attachment.cid}`)
+    });
+
+    await this.inbox.sendEmail({
+      ...this.recipientsFor(delivery),
+      subject: `Accessibility Scan Report - ${score ? `Score ${score.score}/100 (${score.grade}) - ` : ''}${violationsCount} Issues Found${results.profile ? ` (${results.profile})` : ''}`,
+      html: report.html,
+      text: report.text,
+      attachments: attachments.length > 0 ? attachments : undefined
+    });
+  }
+
+  private recipientsFor(delivery: ReportDelivery): { to: string[]; cc?: string[] } {
+    const to = delivery.recipients && delivery.recipients.length > 0
+      ? delivery.recipients
+      : [process.env.DEFAULT_TO_EMAIL!];
+
+    return { to, cc: delivery.cc && delivery.cc.length > 0 ? delivery.cc : undefined };
+  }
+
+  private validateDelivery(delivery: ReportDelivery): string | null {
+    for (const field of ['recipients', 'cc'] as const) {
+      const addresses = delivery[field];
+      if (addresses === undefined) continue;
+
+      if (!Array.isArray(addresses) || addresses.length > MAX_RECIPIENTS) {
+        return `${field} must be an array of at most ${MAX_RECIPIENTS} email addresses`;
+      }
+
+      const invalid = addresses.filter(address => typeof address !== 'string' || !EMAIL_ADDRESS.test(address));
+      if (invalid.length > 0) {
+        return `Invalid email addresses in ${field}: ${invalid.join(', ')}`;
+      }
+    }
+
+    if (delivery.reportTemplate !== undefined && !REPORT_TEMPLATE_NAMES.includes(delivery.reportTemplate)) {
+      return `reportTemplate must be one of: ${REPORT_TEMPLATE_NAMES.join(', ')}`;
+    }
+
+    return null;
   }
 }
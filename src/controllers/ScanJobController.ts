@@ -0,0 +1,164 @@
+import { Request, Response } from 'express';
+import { ScanJobQueue, getScanJobQueue } from '@/services/ScanJobQueue';
+import { AxeOptionsService, getAxeOptionsService } from '@/services/AxeOptionsService';
+import { ScanJobPriority, ScanJobRequest } from '@/types';
+
+const PRIORITIES: ScanJobPriority[] = ['low', 'normal', 'high'];
+
+export class ScanJobController {
+  private scanJobQueue: ScanJobQueue;
+  private axeOptionsService: AxeOptionsService;
+
+  constructor() {
+    this.scanJobQueue = getScanJobQueue();
+    this.axeOptionsService = getAxeOptionsService();
+  }
+
+  async createJob(req: Request, res: Response): Promise<void> {
+    try {
+      const { html, priority, timeoutMs, maxRetries, screenshots = process.env.SCAN_SCREENSHOTS === 'true' }: ScanJobRequest = req.body;
+
+      if (!html || typeof html !== 'string' || html.trim().length === 0) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'HTML content is required and must be a non-empty string',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (html.length > 1024 * 1024) { // 1MB limit
+        res.status(413).json({
+          error: 'Payload too large',
+          message: 'HTML content exceeds 1MB limit',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (priority !== undefined && !PRIORITIES.includes(priority)) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: `Priority must be one of: ${PRIORITIES.join(', ')}`,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (timeoutMs !== undefined && (!Number.isInteger(timeoutMs) || timeoutMs <= 0)) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'timeoutMs must be a positive integer',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (maxRetries !== undefined && (!Number.isInteger(maxRetries) || maxRetries < 0)) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'maxRetries must be a non-negative integer',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (typeof screenshots !== 'boolean') {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: 'screenshots must be a boolean',
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const axeResolution = this.axeOptionsService.resolve(req.body);
+      if (!axeResolution.valid) {
+        res.status(400).json({
+          error: 'Invalid request',
+          message: axeResolution.message,
+          validOptions: axeResolution.validOptions,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+      const axeOptions = Object.keys(axeResolution.options).length > 0 ? axeResolution.options : undefined;
+
+      const job = await this.scanJobQueue.submit({ html, priority, timeoutMs, maxRetries, axeOptions, screenshots });
+
+      res.status(202).json({
+        id: job.id,
+        status: job.status,
+        priority: job.priority,
+        createdAt: job.createdAt,
+        statusUrl: `/api/scans/${job.id}`
+      });
+    } catch (error) {
+      console.error('Create scan job error:', error);
+      res.status(500).json({
+        error: 'Failed to create scan job',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  async getJob(req: Request, res: Response): Promise<void> {
+    try {
+      const job = await this.scanJobQueue.get(req.params.id);
+
+      if (!job) {
+        res.status(404).json({
+          error: 'Scan job not found',
+          id: req.params.id,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      const { request, ...jobInfo } = job;
+      res.json(jobInfo);
+    } catch (error) {
+      console.error('Get scan job error:', error);
+      res.status(500).json({
+        error: 'Failed to get scan job',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  async cancelJob(req: Request, res: Response): Promise<void> {
+    try {
+      const job = await this.scanJobQueue.cancel(req.params.id);
+
+      if (!job) {
+        res.status(404).json({
+          error: 'Scan job not found',
+          id: req.params.id,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      if (job.status !== 'cancelled') {
+        res.status(409).json({
+          error: 'Scan job already finished',
+          id: job.id,
+          status: job.status,
+          timestamp: new Date().toISOString()
+        });
+        return;
+      }
+
+      res.json({ id: job.id, status: job.status });
+    } catch (error) {
+      console.error('Cancel scan job error:', error);
+      res.status(500).json({
+        error: 'Failed to cancel scan job',
+        message: error instanceof Error ? error.message : 'Unknown error',
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+}
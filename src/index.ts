@@ -6,7 +6,15 @@ import { createLogger, format, transports } from 'winston';
 import { ScanController } from '@/controllers/ScanController';
 import { EmailController } from '@/controllers/EmailController';
 import { SampleController } from '@/controllers/SampleController';
-import { EmailListenerService } from '@/services/EmailListenerService';
+import { ScanJobController } from '@/controllers/ScanJobController';
+import { HistoryController } from '@/controllers/HistoryController';
+import { InboundController } from '@/controllers/InboundController';
+import { ReportController } from '@/controllers/ReportController';
+import { EMAIL_EVENT_TYPES, EmailEvent, EmailListenerService, getEmailListener } from '@/services/EmailListenerService';
+import { getBrowserPool } from '@/services/BrowserPool';
+import { getScanJobQueue } from '@/services/ScanJobQueue';
+import { getInbox } from '@/services/InboxProvider';
+import { EmailSocketService } from '@/services/EmailSocketService';
 
 dotenv.config();
 
@@ -35,14 +43,24 @@ class App {
   private scanController: ScanController;
   private emailController: EmailController;
   private sampleController: SampleController;
+  private scanJobController: ScanJobController;
+  private historyController: HistoryController;
+  private inboundController: InboundController;
+  private reportController: ReportController;
   private emailListenerService: EmailListenerService;
+  private emailSocketService: EmailSocketService;
 
   constructor() {
     this.app = express();
     this.scanController = new ScanController();
     this.emailController = new EmailController();
     this.sampleController = new SampleController();
-    this.emailListenerService = new EmailListenerService();
+    this.scanJobController = new ScanJobController();
+    this.historyController = new HistoryController();
+    this.inboundController = new InboundController();
+    this.reportController = new ReportController();
+    this.emailListenerService = getEmailListener();
+    this.emailSocketService = new EmailSocketService(this.emailListenerService);
     
     this.initializeMiddlewares();
     this.initializeRoutes();
@@ -71,6 +89,8 @@ class App {
     this.app.use(express.json({ 
       limit: '10mb',
       verify: (req: any, res: any, buf: Buffer) => {
+        // Kept for webhook signature checks
+        req.rawBody = buf;
         try {
           JSON.parse(buf.toString());
         } catch (e) {
@@ -79,7 +99,13 @@ class App {
         }
       }
     }));
-    this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+    this.app.use(express.urlencoded({
+      extended: true,
+      limit: '10mb',
+      verify: (req: any, res: any, buf: Buffer) => {
+        req.rawBody = buf;
+      }
+    }));
 
     this.app.use((req: any, res: any, next: any) => {
       const start = Date.now();
@@ -99,18 +125,37 @@ class App {
   }
 
   private initializeRoutes(): void {
-    this.app.get('/health', (req: any, res: any) => {
+    this.app.get('/health', async (req: any, res: any) => {
       res.json({ 
         status: 'OK', 
         timestamp: new Date().toISOString(),
         uptime: process.uptime(),
         memory: process.memoryUsage(),
+        browserPool: getBrowserPool().getStats(),
+        scanQueue: await getScanJobQueue().getStats(),
+        inbox: getInbox().name,
         version: process.env.npm_package_version || '1.0.0'
       });
     });
 
     this.app.get('/api/events', (req: any, res: any) => {
       try {
+        const { types, subject, from, to, lastEventId } = req.query as Record<string, string | undefined>;
+        const eventTypes = types ? types.split(',').map(type => type.trim()).filter(Boolean) : undefined;
+        const invalidType = eventTypes?.find(type => !EMAIL_EVENT_TYPES.includes(type as EmailEvent['type']));
+
+        if (invalidType) {
+          res.status(400).json({
+            error: 'Invalid request',
+            message: `Unknown event type: ${invalidType}. Valid types: ${EMAIL_EVENT_TYPES.join(', ')}`,
+            timestamp: new Date().toISOString()
+          });
+          return;
+        }
+
+        // EventSource sends Last-Event-ID on reconnect; the query param covers manual reconnects
+        const lastId = Number(req.get('Last-Event-ID') ?? lastEventId);
+
         res.writeHead(200, {
           'Content-Type': 'text/event-stream',
           'Cache-Control': 'no-cache',
@@ -119,9 +164,13 @@ class App {
           'Access-Control-Allow-Credentials': 'true'
         });
 
-        this.emailListenerService.addClient(res);
+        this.emailListenerService.addClient(res, {
+          lastEventId: Number.isInteger(lastId) && lastId >= 0 ? lastId : undefined,
+          filter: { types: eventTypes as EmailEvent['type'][] | undefined, subject, from, to }
+        });
         logger.info('SSE client connected', { 
-          clientCount: this.emailListenerService.getActiveClientsCount() 
+          clientCount: this.emailListenerService.getActiveClientsCount(),
+          lastEventId: Number.isInteger(lastId) ? lastId : undefined
         });
       } catch (error) {
         logger.error('SSE connection error', { error: error instanceof Error ? error.message : 'Unknown error' });
@@ -133,10 +182,92 @@ class App {
       this.scanController.scanHtml(req, res);
     });
 
+    this.app.get('/api/scan/profiles', (req: any, res: any) => {
+      this.scanController.getProfiles(req, res);
+    });
+
+    this.app.get('/api/scan/presets', (req: any, res: any) => {
+      this.scanController.getPresets(req, res);
+    });
+
+    this.app.post('/api/scan/diff', (req: any, res: any) => {
+      this.scanController.scanDiff(req, res);
+    });
+
+    this.app.post('/api/scan/fix', (req: any, res: any) => {
+      this.scanController.fixHtml(req, res);
+    });
+
+    // JSON batches use the global JSON parser; zip archives arrive as a raw body
+    this.app.post('/api/scan/batch', express.raw({
+      type: ['application/zip', 'application/x-zip-compressed'],
+      limit: process.env.BATCH_MAX_ARCHIVE_SIZE || '50mb'
+    }), (req: any, res: any) => {
+      this.scanController.scanBatch(req, res);
+    });
+
+    this.app.post('/api/scans', (req: any, res: any) => {
+      this.scanJobController.createJob(req, res);
+    });
+
+    this.app.get('/api/scans/:id', (req: any, res: any) => {
+      this.scanJobController.getJob(req, res);
+    });
+
+    this.app.delete('/api/scans/:id', (req: any, res: any) => {
+      this.scanJobController.cancelJob(req, res);
+    });
+
+    this.app.get('/api/scans/:id/report', (req: any, res: any) => {
+      this.reportController.getReport(req, res);
+    });
+
+    this.app.get('/api/scans/:id/screenshots/:nodeIndex', (req: any, res: any) => {
+      this.reportController.getScreenshot(req, res);
+    });
+
+    this.app.get('/api/history', (req: any, res: any) => {
+      this.historyController.listHistory(req, res);
+    });
+
+    this.app.get('/api/history/:id', (req: any, res: any) => {
+      this.historyController.getHistoryEntry(req, res);
+    });
+
     this.app.get('/api/emails', (req: any, res: any) => {
+      this.emailController.listEmails(req, res);
+    });
+
+    this.app.get('/api/emails/latest', (req: any, res: any) => {
       this.emailController.checkForEmails(req, res);
     });
 
+    this.app.get('/api/emails/:id', (req: any, res: any) => {
+      this.emailController.getEmail(req, res);
+    });
+
+    this.app.delete('/api/emails/:id', (req: any, res: any) => {
+      this.emailController.deleteEmail(req, res);
+    });
+
+    this.app.post('/api/emails/:id/scan', (req: any, res: any) => {
+      this.emailController.scanEmail(req, res);
+    });
+
+    this.app.post('/api/emails/upload', express.raw({
+      type: 'multipart/form-data',
+      limit: process.env.EML_UPLOAD_MAX_SIZE || '25mb'
+    }), (req: any, res: any) => {
+      this.emailController.uploadEmails(req, res);
+    });
+
+    this.app.post('/api/inbound', express.raw({
+      type: ['message/rfc822', 'text/plain', 'application/octet-stream', 'multipart/form-data'],
+      limit: '10mb'
+    }), (req: any, res: any) => {
+      this.inboundController.receive(req, res);
+    });
+
     this.app.get('/api/test-samples', (req: any, res: any) => {
       this.sampleController.getSamples(req, res);
     });
@@ -145,6 +276,23 @@ class App {
       this.sampleController.handleSampleAction(req, res);
     });
 
+    // Registered before /:id so "verify" is not taken as a sample id
+    this.app.post('/api/test-samples/verify', (req: any, res: any) => {
+      this.sampleController.verifySamples(req, res);
+    });
+
+    this.app.post('/api/test-samples/:id', (req: any, res: any) => {
+      this.sampleController.createSample(req, res);
+    });
+
+    this.app.put('/api/test-samples/:id', (req: any, res: any) => {
+      this.sampleController.updateSample(req, res);
+    });
+
+    this.app.delete('/api/test-samples/:id', (req: any, res: any) => {
+      this.sampleController.deleteSample(req, res);
+    });
+
     this.app.use('*', (req: any, res: any) => {
       logger.warn('Route not found', { method: req.method, url: req.originalUrl });
       res.status(404).json({ 
@@ -193,8 +341,24 @@ class App {
     });
   }
 
-  private shutdown(): void {
+  private async shutdown(): Promise<void> {
     logger.info('Shutting down server...');
+    getScanJobQueue().shutdown();
+    try {
+      await this.emailSocketService.close();
+    } catch (error) {
+      logger.error('Error closing WebSocket server', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+    try {
+      await getInbox().stop();
+    } catch (error) {
+      logger.error('Error stopping inbox', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
+    try {
+      await getBrowserPool().shutdown();
+    } catch (error) {
+      logger.error('Error shutting down browser pool', { error: error instanceof Error ? error.message : 'Unknown error' });
+    }
     process.exit(0);
   }
 
@@ -204,11 +368,23 @@ class App {
       logger.info('AccessTime Backend started', {
         port,
         environment: process.env.NODE_ENV || 'development',
+        inbox: getInbox().name,
         mailhog: `http://${process.env.MAILHOG_HOST}:${process.env.MAILHOG_WEB_PORT}`,
         corsOrigin: process.env.CORS_ORIGIN || 'http://localhost:3000'
       });
     });
 
+    this.emailSocketService.attach(server);
+
+    getInbox().start()
+      .catch(error => {
+        logger.error('Failed to start inbox', { error: error instanceof Error ? error.message : 'Unknown error' });
+      })
+      .then(() => this.emailListenerService.start())
+      .catch(error => {
+        logger.error('Failed to start email listener', { error: error instanceof Error ? error.message : 'Unknown error' });
+      });
+
     server.on('error', (error: NodeJS.ErrnoException) => {
       if (error.syscall !== 'listen') {
         throw error;
@@ -1,31 +1,363 @@
-import { chromium } from 'playwright';
+import { BrowserContextOptions, Page } from 'playwright';
 import injectAxe from '@axe-core/playwright';
-import { ScanResult, ScanRequest } from '@/types';
+import { RunOptions } from 'axe-core';
+import {
+  AccessibilityIncomplete,
+  AccessibilityViolation,
+  ColorMode,
+  ResolvedAxeOptions,
+  ScanOutput,
+  ScanResult,
+  ScanRequest,
+  ViolationScreenshots
+} from '@/types';
+import { BrowserPool, getBrowserPool } from './BrowserPool';
+import { getEmailClientProfile } from './EmailClientProfiles';
+import { EmailRuleEngine } from './EmailRuleEngine';
+import { enabledEmailRules } from './AxeOptionsService';
+
+interface RunScanOptions {
+  context?: BrowserContextOptions;
+  prepare?: (page: Page) => Promise<void>;
+  plainText?: string;
+  axeOptions?: ResolvedAxeOptions;
+  screenshots?: boolean;
+  signal?: AbortSignal;
+}
+
+const HIGHLIGHT_ID = '__access-time-highlight';
+const SCREENSHOT_PADDING = 16;
+const SCREENSHOT_MAX_HEIGHT = 1200;
 
 export class AccessibilityScanner {
+  private browserPool: BrowserPool;
+  private emailRuleEngine: EmailRuleEngine;
+  private readonly maxScreenshots: number;
+
+  constructor(browserPool: BrowserPool = getBrowserPool()) {
+    this.browserPool = browserPool;
+    this.emailRuleEngine = new EmailRuleEngine();
+    this.maxScreenshots = Number(process.env.SCREENSHOT_MAX_NODES) || 50;
+  }
+
   async scanHtml(request: ScanRequest): Promise<ScanResult> {
-    const browser = await chromium.launch();
-    const context = await browser.newContext();
-    const page = await context.newPage();
-    
+    const output = await this.runScan(request.html, { plainText: request.plainText, axeOptions: request.axeOptions });
+    return output.result;
+  }
+
+  /**
+   * Scans the HTML and, when `request.screenshots` is set, captures a
+   * full-page screenshot plus a cropped image of each violating node with the
+   * node highlighted. Captured nodes get a `screenshotIndex` into the images.
+   * Aborting `signal` closes the browser context and fails the scan.
+   */
+  async scanWithScreenshots(request: ScanRequest, signal?: AbortSignal): Promise<ScanOutput> {
+    return this.runScan(request.html, {
+      plainText: request.plainText,
+      axeOptions: request.axeOptions,
+      screenshots: request.screenshots,
+      signal
+    });
+  }
+
+  /**
+   * Scans the HTML once per email client profile, rendering it with the
+   * profile's viewport, color scheme and user agent after applying the
+   * client's HTML pre-processing.
+   */
+  async scanWithProfiles(request: ScanRequest, profiles: string[]): Promise<ScanResult[]> {
+    return Promise.all(profiles.map(async (name) => {
+      const profile = getEmailClientProfile(name);
+      if (!profile) {
+        return { ...this.errorResult(`Unknown email client profile: ${name}`), profile: name };
+      }
+
+      const { result } = await this.runScan(profile.preprocess(request.html), {
+        context: profile.context,
+        plainText: request.plainText,
+        axeOptions: request.axeOptions
+      });
+      return { ...result, profile: name };
+    }));
+  }
+
+  /**
+   * Scans the HTML in each color mode and merges the results. Violations and
+   * incomplete checks are tagged with the modes they appeared in; passes and
+   * inapplicable rules come from the first mode.
+   */
+  async scanColorModes(request: ScanRequest, modes: ColorMode[]): Promise<ScanResult> {
+    const results = await Promise.all(modes.map(async mode => {
+      const { result } = await this.runScan(request.html, {
+        context: { colorScheme: mode === 'dark' ? 'dark' : 'light' },
+        prepare: mode === 'inverted' ? (page) => this.applyForcedInversion(page) : undefined,
+        plainText: request.plainText,
+        axeOptions: request.axeOptions
+      });
+      return result;
+    }));
+
+    const failed = results.find(result => result.error);
+    if (failed) {
+      return { ...this.errorResult(failed.error!), colorModes: modes };
+    }
+
+    return {
+      ...results[0],
+      violations: this.mergeByMode(results.map(result => result.violations), modes),
+      incomplete: this.mergeByMode(results.map(result => result.incomplete), modes),
+      colorModes: modes
+    };
+  }
+
+  private mergeByMode<T extends AccessibilityViolation | AccessibilityIncomplete>(perMode: T[][], modes: ColorMode[]): T[] {
+    const merged = new Map<string, T>();
+
+    perMode.forEach((items, index) => {
+      const mode = modes[index];
+
+      (items || []).forEach(item => {
+        let existing = merged.get(item.id);
+        if (!existing) {
+          existing = { ...item, nodes: [], modes: [] };
+          merged.set(item.id, existing);
+        }
+        if (!existing.modes!.includes(mode)) {
+          existing.modes!.push(mode);
+        }
+
+        item.nodes.forEach(node => {
+          const key = (node.target || []).join(' ');
+          const existingNode = existing!.nodes.find(n => (n.target || []).join(' ') === key);
+          if (existingNode) {
+            existingNode.modes = Array.from(new Set([...(existingNode.modes || []), mode]));
+          } else {
+            existing!.nodes.push({ ...node, modes: [mode] });
+          }
+        });
+      });
+    });
+
+    return Array.from(merged.values());
+  }
+
+  /**
+   * Emulates the forced color inversion some clients apply in dark mode by
+   * rewriting every element's text, background and border colors to their
+   * inverse. Images are left untouched, as clients do.
+   */
+  private async applyForcedInversion(page: Page): Promise<void> {
+    await page.evaluate(() => {
+      const invert = (value: string): string | null => {
+        const match = value.match(/rgba?\(([^)]+)\)/);
+        if (!match) return null;
+        const [r, g, b, a = '1'] = match[1].split(',').map(part => part.trim());
+        if (Number(a) === 0) return null;
+        return `rgba(${255 - Number(r)}, ${255 - Number(g)}, ${255 - Number(b)}, ${a})`;
+      };
+
+      const elements = Array.from(document.querySelectorAll<HTMLElement>('*'));
+      const inverted = elements.map(element => {
+        const style = window.getComputedStyle(element);
+        return {
+          element,
+          color: invert(style.color),
+          backgroundColor: invert(style.backgroundColor),
+          borderColor: invert(style.borderTopColor)
+        };
+      });
+
+      inverted.forEach(({ element, color, backgroundColor, borderColor }) => {
+        if (color) element.style.setProperty('color', color, 'important');
+        if (backgroundColor) element.style.setProperty('background-color', backgroundColor, 'important');
+        if (borderColor) element.style.setProperty('border-color', borderColor, 'important');
+      });
+
+      // Clients paint a dark canvas behind transparent messages
+      if (!invert(window.getComputedStyle(document.body).backgroundColor)) {
+        document.body.style.setProperty('background-color', '#000000', 'important');
+      }
+    });
+  }
+
+  private async runScan(html: string, options: RunScanOptions = {}): Promise<ScanOutput> {
     try {
-      await page.setContent(request.html);
-      
-      const results = await new injectAxe({ page }).analyze();
+      return await this.browserPool.withContext(async (context) => {
+        // Closing the context fails whatever the page is doing, which ends
+        // the scan and hands the browser back to the pool
+        const close = () => { context.close().catch(() => undefined); };
+        options.signal?.throwIfAborted();
+        options.signal?.addEventListener('abort', close, { once: true });
+
+        try {
+          const page = await context.newPage();
+          await page.setContent(html);
+
+          if (options.prepare) {
+            await options.prepare(page);
+          }
 
-      return results as ScanResult;
-    } catch (error) {
+          if (options.axeOptions?.selector && !(await page.$(options.axeOptions.selector))) {
+            throw new Error(`Selector matched no elements: ${options.axeOptions.selector}`);
+          }
+
+          const results = await this.runAxe(page, options.axeOptions);
+          const emailResults = await this.emailRuleEngine.run(page, {
+            plainText: options.plainText,
+            ruleIds: enabledEmailRules(options.axeOptions),
+            selector: options.axeOptions?.selector
+          });
+
+          const result: ScanResult = {
+            ...results,
+            violations: [...results.violations, ...emailResults.violations],
+            passes: [...results.passes, ...emailResults.passes],
+            inapplicable: [...results.inapplicable, ...emailResults.inapplicable]
+          };
+
+          if (!options.screenshots) {
+            return { result };
+          }
+
+          const screenshots = await this.captureScreenshots(page, result);
+          return { result: { ...result, screenshotCount: screenshots.nodes.length }, screenshots };
+        } finally {
+          options.signal?.removeEventListener('abort', close);
+        }
+      }, options.context);
+    } catch (scanError) {
+      // Report why the scan was aborted rather than the closed page
+      const error = options.signal?.aborted ? options.signal.reason : scanError;
       console.error('Accessibility scan error:', error);
+      return { result: this.errorResult(error instanceof Error ? error.message : 'Unknown error') };
+    }
+  }
+
+  private async captureScreenshots(page: Page, result: ScanResult): Promise<ViolationScreenshots> {
+    const fullPage = await page.screenshot({ type: 'png', fullPage: true });
+    const nodes: Buffer[] = [];
+
+    for (const violation of result.violations) {
+      for (const node of violation.nodes || []) {
+        if (nodes.length >= this.maxScreenshots) {
+          return { fullPage, nodes };
+        }
+
+        // Targets with several parts point into iframes or shadow roots
+        if (node.target?.length !== 1) continue;
+
+        try {
+          const image = await this.captureNode(page, node.target[0]);
+          if (image) {
+            node.screenshotIndex = nodes.length;
+            nodes.push(image);
+          }
+        } catch (error) {
+          console.error('Failed to capture node screenshot:', node.target[0], error);
+        }
+      }
+    }
+
+    return { fullPage, nodes };
+  }
+
+  /**
+   * Outlines the element with an overlay and captures it with some
+   * surrounding context. Returns null for missing or invisible elements.
+   */
+  private async captureNode(page: Page, selector: string): Promise<Buffer | null> {
+    const clip = await page.evaluate(({ selector, highlightId, padding, maxHeight }) => {
+      const element = document.querySelector(selector);
+      if (!element) return null;
+
+      const rect = element.getBoundingClientRect();
+      if (rect.width === 0 || rect.height === 0) return null;
+
+      const top = rect.top + window.scrollY;
+      const left = rect.left + window.scrollX;
+      const highlight = document.createElement('div');
+      highlight.id = highlightId;
+      highlight.setAttribute('style', [
+        'position: absolute',
+        `top: ${top - 3}px`,
+        `left: ${left - 3}px`,
+        `width: ${rect.width + 6}px`,
+        `height: ${rect.height + 6}px`,
+        'border: 3px solid #dc2626',
+        'background-color: rgba(220, 38, 38, 0.15)',
+        'box-sizing: border-box',
+        'pointer-events: none',
+        'z-index: 2147483647'
+      ].join('; '));
+      document.body.appendChild(highlight);
+
+      const pageWidth = Math.max(document.documentElement.scrollWidth, document.body.scrollWidth);
+      const pageHeight = Math.max(document.documentElement.scrollHeight, document.body.scrollHeight);
+      const x = Math.max(0, left - padding);
+      const y = Math.max(0, top - padding);
+
       return {
-        violations: [],
-        passes: [],
-        incomplete: [],
-        inapplicable: [],
-        error: error instanceof Error ? error.message : 'Unknown error'
+        x,
+        y,
+        width: Math.min(pageWidth - x, rect.width + padding * 2),
+        height: Math.min(pageHeight - y, rect.height + padding * 2, maxHeight)
       };
+    }, { selector, highlightId: HIGHLIGHT_ID, padding: SCREENSHOT_PADDING, maxHeight: SCREENSHOT_MAX_HEIGHT });
+
+    if (!clip) return null;
+
+    try {
+      if (clip.width < 1 || clip.height < 1) return null;
+      return await page.screenshot({ type: 'png', fullPage: true, clip });
     } finally {
-      await context.close();
-      await browser.close();
+      await page.evaluate((id) => document.getElementById(id)?.remove(), HIGHLIGHT_ID);
     }
   }
+
+  private async runAxe(page: Page, axeOptions?: ResolvedAxeOptions): Promise<ScanResult> {
+    const builder = new injectAxe({ page });
+
+    if (axeOptions) {
+      const isAxeRule = (id: string) => !id.startsWith('email-');
+      const includeRules = (axeOptions.includeRules || []).filter(isAxeRule);
+      const excludeRules = (axeOptions.excludeRules || []).filter(isAxeRule);
+      const runOptions: RunOptions = {};
+
+      if (axeOptions.tags) {
+        // Included rules are added on top of the WCAG tags
+        runOptions.runOnly = { type: 'tag', values: axeOptions.tags };
+        runOptions.rules = {};
+        includeRules.forEach(id => { runOptions.rules![id] = { enabled: true }; });
+        excludeRules.forEach(id => { runOptions.rules![id] = { enabled: false }; });
+      } else if (axeOptions.includeRules && axeOptions.includeRules.length > 0) {
+        // Without a WCAG level, included rules limit the scan to exactly those rules
+        const rules = includeRules.filter(id => !excludeRules.includes(id));
+        if (rules.length === 0) {
+          return { violations: [], passes: [], incomplete: [], inapplicable: [] };
+        }
+        runOptions.runOnly = { type: 'rule', values: rules };
+      } else if (excludeRules.length > 0) {
+        runOptions.rules = {};
+        excludeRules.forEach(id => { runOptions.rules![id] = { enabled: false }; });
+      }
+
+      builder.options(runOptions);
+
+      if (axeOptions.selector) {
+        builder.include(axeOptions.selector);
+      }
+    }
+
+    return await builder.analyze() as unknown as ScanResult;
+  }
+
+  private errorResult(message: string): ScanResult {
+    return {
+      violations: [],
+      passes: [],
+      incomplete: [],
+      inapplicable: [],
+      error: message
+    };
+  }
 }
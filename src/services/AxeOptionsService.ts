@@ -0,0 +1,203 @@
+import fs from 'fs';
+import path from 'path';
+import axe from 'axe-core';
+import { AxeRunOptions, ResolvedAxeOptions, RulePreset, WcagLevel, WcagVersion } from '@/types';
+import { EMAIL_RULES } from './EmailRuleEngine';
+
+const WCAG_LEVELS: WcagLevel[] = ['A', 'AA', 'AAA'];
+const WCAG_VERSIONS: WcagVersion[] = ['2.0', '2.1', '2.2'];
+
+export interface ValidAxeOptions {
+  wcagLevels: WcagLevel[];
+  wcagVersions: WcagVersion[];
+  presets: string[];
+  rules: string[];
+}
+
+export type AxeOptionsResolution =
+  | { valid: true; options: ResolvedAxeOptions }
+  | { valid: false; message: string; validOptions: ValidAxeOptions };
+
+export class AxeOptionsService {
+  private readonly presetsPath: string;
+  private presets: Record<string, RulePreset> | null = null;
+  private axeRuleIds: string[];
+  private axeTags: Set<string>;
+
+  constructor(presetsPath?: string) {
+    this.presetsPath = presetsPath || process.env.RULE_PRESETS_PATH || path.join(__dirname, '../../config/rule-presets.json');
+
+    const rules = axe.getRules();
+    this.axeRuleIds = rules.map(rule => rule.ruleId);
+    this.axeTags = new Set(rules.flatMap(rule => rule.tags));
+  }
+
+  /**
+   * Validates the axe options of a scan request, merges them over the named
+   * preset and resolves the WCAG level and version into axe tags.
+   */
+  resolve(input: AxeRunOptions): AxeOptionsResolution {
+    let options: ResolvedAxeOptions = {};
+
+    if (input.preset !== undefined) {
+      const preset = this.getPreset(input.preset);
+      if (!preset) {
+        return this.invalid(`Unknown rule preset: ${input.preset}`);
+      }
+      const { description, ...presetOptions } = preset;
+      options = { ...presetOptions, preset: input.preset };
+    }
+
+    options = {
+      ...options,
+      ...(input.wcagLevel !== undefined && { wcagLevel: input.wcagLevel }),
+      ...(input.wcagVersion !== undefined && { wcagVersion: input.wcagVersion }),
+      ...(input.includeRules !== undefined && { includeRules: input.includeRules }),
+      ...(input.excludeRules !== undefined && { excludeRules: input.excludeRules }),
+      ...(input.selector !== undefined && { selector: input.selector })
+    };
+
+    if (options.wcagLevel !== undefined && !WCAG_LEVELS.includes(options.wcagLevel)) {
+      return this.invalid(`Invalid WCAG level: ${options.wcagLevel}`);
+    }
+
+    if (options.wcagVersion !== undefined && !WCAG_VERSIONS.includes(options.wcagVersion)) {
+      return this.invalid(`Invalid WCAG version: ${options.wcagVersion}`);
+    }
+
+    for (const key of ['includeRules', 'excludeRules'] as const) {
+      const ruleIds = options[key];
+      if (ruleIds === undefined) continue;
+
+      if (!Array.isArray(ruleIds) || ruleIds.some(id => typeof id !== 'string')) {
+        return this.invalid(`${key} must be an array of rule ids`);
+      }
+
+      const unknown = ruleIds.filter(id => !this.getValidRuleIds().includes(id));
+      if (unknown.length > 0) {
+        return this.invalid(`Unknown rule ids in ${key}: ${unknown.join(', ')}`);
+      }
+    }
+
+    if (options.selector !== undefined && (typeof options.selector !== 'string' || options.selector.trim().length === 0)) {
+      return this.invalid('selector must be a non-empty CSS selector');
+    }
+
+    const selectorError = options.selector !== undefined ? this.selectorSyntaxError(options.selector) : null;
+    if (selectorError) {
+      return this.invalid(`Invalid CSS selector "${options.selector}": ${selectorError}`);
+    }
+
+    if (options.wcagLevel || options.wcagVersion) {
+      options.tags = this.tagsFor(options.wcagLevel || 'AA', options.wcagVersion || '2.1');
+    }
+
+    return { valid: true, options };
+  }
+
+  /**
+   * Reads axe options from string fields, as sent in a query string or a
+   * multipart form. Rule lists are comma-separated. The result still needs
+   * `resolve`.
+   */
+  fromStringFields(fields: Record<string, unknown>): AxeRunOptions {
+    const text = (name: string) => typeof fields[name] === 'string' ? fields[name] as string : undefined;
+    const list = (name: string) => text(name)?.split(',').map(item => item.trim()).filter(Boolean);
+
+    return {
+      preset: text('preset'),
+      wcagLevel: text('wcagLevel') as WcagLevel | undefined,
+      wcagVersion: text('wcagVersion') as WcagVersion | undefined,
+      includeRules: list('includeRules'),
+      excludeRules: list('excludeRules'),
+      selector: text('selector')
+    };
+  }
+
+  getValidRuleIds(): string[] {
+    return [...this.axeRuleIds, ...EMAIL_RULES.map(rule => rule.id)];
+  }
+
+  listPresets(): Record<string, RulePreset> {
+    return this.loadPresets();
+  }
+
+  private getPreset(name: string): RulePreset | undefined {
+    const presets = this.loadPresets();
+    return Object.prototype.hasOwnProperty.call(presets, name) ? presets[name] : undefined;
+  }
+
+  private loadPresets(): Record<string, RulePreset> {
+    if (!this.presets) {
+      try {
+        const data = JSON.parse(fs.readFileSync(this.presetsPath, 'utf-8'));
+        this.presets = data.presets || {};
+      } catch (error) {
+        console.error('Error loading rule presets:', error);
+        this.presets = {};
+      }
+    }
+    return this.presets!;
+  }
+
+  private tagsFor(level: WcagLevel, version: WcagVersion): string[] {
+    const levels = WCAG_LEVELS.slice(0, WCAG_LEVELS.indexOf(level) + 1).map(l => l.toLowerCase());
+    const versions = ['2', '21', '22'].slice(0, WCAG_VERSIONS.indexOf(version) + 1);
+
+    return versions
+      .flatMap(v => levels.map(l => `wcag${v}${l}`))
+      .filter(tag => this.axeTags.has(tag));
+  }
+
+  /** Parses the selector with axe's CSS parser and returns its error, if any. */
+  private selectorSyntaxError(selector: string): string | null {
+    try {
+      (axe.utils as unknown as { cssParser: { parse(selector: string): unknown } }).cssParser.parse(selector);
+      return null;
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Unknown error';
+    }
+  }
+
+  private invalid(message: string): AxeOptionsResolution {
+    return {
+      valid: false,
+      message,
+      validOptions: {
+        wcagLevels: WCAG_LEVELS,
+        wcagVersions: WCAG_VERSIONS,
+        presets: Object.keys(this.loadPresets()),
+        rules: this.getValidRuleIds()
+      }
+    };
+  }
+}
+
+/**
+ * Returns the email rule ids enabled by the resolved options, or undefined
+ * when every email rule should run.
+ */
+export function enabledEmailRules(options?: ResolvedAxeOptions): string[] | undefined {
+  if (!options) return undefined;
+
+  const excluded = options.excludeRules || [];
+  const included = options.includeRules || [];
+  let enabled = EMAIL_RULES;
+
+  if (options.tags) {
+    enabled = enabled.filter(rule => included.includes(rule.id) || rule.tags.some(tag => options.tags!.includes(tag)));
+  } else if (included.length > 0) {
+    enabled = enabled.filter(rule => included.includes(rule.id));
+  }
+
+  return enabled.map(rule => rule.id).filter(id => !excluded.includes(id));
+}
+
+let sharedAxeOptions: AxeOptionsService | null = null;
+
+export function getAxeOptionsService(): AxeOptionsService {
+  if (!sharedAxeOptions) {
+    sharedAxeOptions = new AxeOptionsService();
+  }
+  return sharedAxeOptions;
+}
@@ -0,0 +1,224 @@
+import {
+  BatchItemResult,
+  BatchRuleSummary,
+  BatchScanItem,
+  BatchScanProgress,
+  BatchScanResult,
+  BatchScanSummary,
+  ImpactLevel,
+  ResolvedAxeOptions,
+  ScanResult
+} from '@/types';
+import { AccessibilityScanner } from './AccessibilityScanner';
+import { InboundEmailService } from './InboundEmailService';
+import { ScanHistoryService, getScanHistory } from './ScanHistoryService';
+import { ScoringService, getScoringService } from './ScoringService';
+import { ZipLimits, ZipReader } from './ZipReader';
+
+export interface BatchScanOptions {
+  axeOptions?: ResolvedAxeOptions;
+  concurrency?: number;
+  /** Stops starting new scans once aborted; scans already running finish. */
+  signal?: AbortSignal;
+  onProgress?: (progress: BatchScanProgress) => void;
+}
+
+const IMPACT_LEVELS: ImpactLevel[] = ['critical', 'serious', 'moderate', 'minor'];
+const MAX_HTML_SIZE = 1024 * 1024;
+
+export class BatchScanService {
+  private scanner: AccessibilityScanner;
+  private scanHistory: ScanHistoryService;
+  private scoringService: ScoringService;
+  private zipReader: ZipReader;
+  private inboundEmailService: InboundEmailService;
+  private readonly archiveLimits: ZipLimits;
+  readonly maxConcurrency: number;
+  readonly maxItems: number;
+
+  constructor(scanner: AccessibilityScanner = new AccessibilityScanner()) {
+    this.scanner = scanner;
+    this.scanHistory = getScanHistory();
+    this.scoringService = getScoringService();
+    this.zipReader = new ZipReader();
+    this.inboundEmailService = new InboundEmailService();
+    this.maxConcurrency = Math.max(1, Number(process.env.BATCH_SCAN_CONCURRENCY) || Number(process.env.BROWSER_POOL_SIZE) || 2);
+    this.maxItems = Number(process.env.BATCH_MAX_ITEMS) || 500;
+    this.archiveLimits = {
+      maxEntries: this.maxItems * 4,
+      maxEntrySize: 10 * 1024 * 1024,
+      maxTotalSize: Number(process.env.BATCH_MAX_ARCHIVE_EXPANDED_SIZE) || 200 * 1024 * 1024
+    };
+  }
+
+  /**
+   * Turns a zip archive into scan items: `.html`/`.htm` files are scanned as
+   * they are and `.eml` messages by their HTML part, falling back to the text
+   * part. Other files are listed in `skipped`; hidden files and macOS
+   * metadata are ignored. Throws when the archive cannot be read.
+   */
+  readArchive(buffer: Buffer): { items: BatchScanItem[]; skipped: { name: string; reason: string }[] } {
+    const items: BatchScanItem[] = [];
+    const skipped: { name: string; reason: string }[] = [];
+
+    this.zipReader.read(buffer, this.archiveLimits).forEach(entry => {
+      const segments = entry.name.split('/');
+      if (segments.some(segment => segment.startsWith('.') || segment === '__MACOSX')) return;
+
+      const extension = entry.name.slice(entry.name.lastIndexOf('.')).toLowerCase();
+      if (extension === '.html' || extension === '.htm') {
+        const html = entry.data.toString('utf-8').replace(/^\uFEFF/, '');
+        if (!html.trim()) {
+          skipped.push({ name: entry.name, reason: 'Empty file' });
+        } else if (html.length > MAX_HTML_SIZE) {
+          skipped.push({ name: entry.name, reason: 'HTML content exceeds 1MB limit' });
+        } else {
+          items.push({ name: entry.name, html });
+        }
+      } else if (extension === '.eml') {
+        const email = this.inboundEmailService.parse('message/rfc822', entry.data, null);
+        if (!email || !email.html.trim()) {
+          skipped.push({ name: entry.name, reason: 'Message has no HTML or text part' });
+        } else if (email.html.length > MAX_HTML_SIZE) {
+          skipped.push({ name: entry.name, reason: 'HTML content exceeds 1MB limit' });
+        } else {
+          items.push({ name: entry.name, html: email.html, plainText: email.text, subject: email.subject });
+        }
+      } else {
+        skipped.push({ name: entry.name, reason: 'Not an HTML or .eml file' });
+      }
+    });
+
+    return { items, skipped };
+  }
+
+  /**
+   * Scans the items with at most `concurrency` scans in flight, recording
+   * each in the scan history. `onProgress` is called as each item finishes,
+   * in completion order; the returned items are in input order.
+   */
+  async run(items: BatchScanItem[], options: BatchScanOptions = {}): Promise<Omit<BatchScanResult, 'skipped'>> {
+    const startTime = Date.now();
+    const concurrency = Math.max(1, Math.min(options.concurrency || this.maxConcurrency, this.maxConcurrency, items.length));
+    const results: { item: BatchItemResult; result?: ScanResult }[] = [];
+    let next = 0;
+    let completed = 0;
+
+    const worker = async () => {
+      while (next < items.length && !options.signal?.aborted) {
+        const index = next++;
+        results[index] = await this.scanItem(items[index], index, options.axeOptions);
+        completed++;
+        options.onProgress?.({ completed, total: items.length, item: results[index].item });
+      }
+    };
+    await Promise.all(Array.from({ length: concurrency }, worker));
+
+    // Items never started after an abort are left out
+    const finished = results.filter(Boolean);
+
+    return {
+      items: finished.map(entry => entry.item),
+      summary: this.summarize(finished, items.length),
+      concurrency,
+      durationMs: Date.now() - startTime,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private async scanItem(input: BatchScanItem, index: number, axeOptions?: ResolvedAxeOptions): Promise<{ item: BatchItemResult; result?: ScanResult }> {
+    const startTime = Date.now();
+
+    let result: ScanResult;
+    try {
+      result = await this.scanner.scanHtml({ html: input.html, plainText: input.plainText, axeOptions });
+    } catch (error) {
+      return {
+        item: {
+          index,
+          name: input.name,
+          status: 'failed',
+          violations: [],
+          durationMs: Date.now() - startTime,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        }
+      };
+    }
+    const durationMs = Date.now() - startTime;
+
+    let scanId: string | undefined;
+    try {
+      const record = await this.scanHistory.record({
+        html: input.html,
+        result,
+        durationMs,
+        source: 'batch',
+        subject: input.subject || input.name
+      });
+      scanId = record.id;
+    } catch (historyError) {
+      console.error('Failed to record scan history:', historyError);
+    }
+
+    return {
+      item: {
+        index,
+        name: input.name,
+        status: result.error ? 'failed' : 'completed',
+        scanId,
+        score: result.error ? undefined : this.scoringService.score(result),
+        violations: (result.violations || []).map(violation => ({
+          ruleId: violation.id,
+          impact: violation.impact || 'minor',
+          nodes: violation.nodes?.length || 0
+        })),
+        durationMs,
+        error: result.error
+      },
+      result: result.error ? undefined : result
+    };
+  }
+
+  private summarize(entries: { item: BatchItemResult; result?: ScanResult }[], total: number): BatchScanSummary {
+    const completed = entries.filter(entry => entry.result);
+    const violationsByImpact = Object.fromEntries(IMPACT_LEVELS.map(impact => [impact, 0])) as Record<ImpactLevel, number>;
+    const rules = new Map<string, BatchRuleSummary>();
+
+    completed.forEach(({ result }) => {
+      (result!.violations || []).forEach(violation => {
+        const impact = IMPACT_LEVELS.includes(violation.impact as ImpactLevel) ? violation.impact as ImpactLevel : 'minor';
+        violationsByImpact[impact]++;
+
+        const rule = rules.get(violation.id) || {
+          ruleId: violation.id,
+          impact,
+          help: violation.help,
+          helpUrl: violation.helpUrl,
+          items: 0,
+          share: 0,
+          nodes: 0
+        };
+        rule.items++;
+        rule.nodes += violation.nodes?.length || 0;
+        rules.set(violation.id, rule);
+      });
+    });
+
+    const scores = completed.map(entry => entry.item.score?.score).filter((score): score is number => score !== undefined);
+    const topRules = Array.from(rules.values())
+      .map(rule => ({ ...rule, share: Math.round((rule.items / completed.length) * 1000) / 1000 }))
+      .sort((a, b) => b.items - a.items ||
+        IMPACT_LEVELS.indexOf(a.impact as ImpactLevel) - IMPACT_LEVELS.indexOf(b.impact as ImpactLevel) ||
+        b.nodes - a.nodes);
+
+    return {
+      total,
+      completed: completed.length,
+      failed: entries.length - completed.length,
+      itemsWithViolations: completed.filter(({ result }) => (result!.violations || []).length > 0).length,
+      averageScore: scores.length > 0 ? Math.round((scores.reduce((sum, score) => sum + score, 0) / scores.length) * 10) / 10 : null,
+      violationsByImpact,
+      topRules
+    };
+  }
+}
@@ -0,0 +1,195 @@
+import { chromium, Browser, BrowserContext, BrowserContextOptions } from 'playwright';
+import { BrowserPoolStats } from '@/types';
+
+interface PooledBrowser {
+  id: number;
+  browser: Browser;
+  scans: number;
+  busy: boolean;
+  crashed: boolean;
+}
+
+interface Waiter {
+  resolve: (worker: PooledBrowser) => void;
+  reject: (error: Error) => void;
+}
+
+export class BrowserPool {
+  private readonly maxSize: number;
+  private readonly maxScansPerBrowser: number;
+  private workers: PooledBrowser[] = [];
+  private launching: number = 0;
+  private queue: Waiter[] = [];
+  private nextId: number = 1;
+  private isShuttingDown: boolean = false;
+
+  constructor(maxSize?: number, maxScansPerBrowser?: number) {
+    this.maxSize = Math.max(1, maxSize || Number(process.env.BROWSER_POOL_SIZE) || 2);
+    this.maxScansPerBrowser = Math.max(1, maxScansPerBrowser || Number(process.env.BROWSER_MAX_SCANS) || 50);
+  }
+
+  /**
+   * Runs `task` inside a fresh, isolated browser context borrowed from the pool.
+   * The context is always closed afterwards and the browser is recycled when it
+   * crashed or reached its scan limit.
+   */
+  async withContext<T>(
+    task: (context: BrowserContext) => Promise<T>,
+    options: BrowserContextOptions = {}
+  ): Promise<T> {
+    const worker = await this.acquire();
+    let context: BrowserContext | null = null;
+
+    try {
+      context = await worker.browser.newContext(options);
+      return await task(context);
+    } catch (error) {
+      if (!worker.browser.isConnected()) {
+        worker.crashed = true;
+      }
+      throw error;
+    } finally {
+      if (context) {
+        await context.close().catch(() => undefined);
+      }
+      await this.release(worker);
+    }
+  }
+
+  getStats(): BrowserPoolStats {
+    return {
+      size: this.workers.length,
+      maxSize: this.maxSize,
+      busy: this.workers.filter(worker => worker.busy).length,
+      idle: this.workers.filter(worker => !worker.busy).length,
+      queueDepth: this.queue.length
+    };
+  }
+
+  async shutdown(): Promise<void> {
+    this.isShuttingDown = true;
+
+    const waiters = this.queue.splice(0);
+    waiters.forEach(waiter => waiter.reject(new Error('Browser pool is shutting down')));
+
+    const workers = this.workers.splice(0);
+    await Promise.all(workers.map(worker => this.closeWorker(worker)));
+    console.log('Browser pool shut down', { closedBrowsers: workers.length });
+  }
+
+  private async acquire(): Promise<PooledBrowser> {
+    if (this.isShuttingDown) {
+      throw new Error('Browser pool is shutting down');
+    }
+
+    const idle = this.workers.find(worker => !worker.busy && !worker.crashed);
+    if (idle) {
+      idle.busy = true;
+      return idle;
+    }
+
+    if (this.workers.length + this.launching < this.maxSize) {
+      // A failed launch frees its slot, so queued scans get to try their own
+      const worker = await this.launchWorker().catch(error => {
+        this.dispatch();
+        throw error;
+      });
+      worker.busy = true;
+      return worker;
+    }
+
+    return new Promise<PooledBrowser>((resolve, reject) => {
+      this.queue.push({ resolve, reject });
+    });
+  }
+
+  private async release(worker: PooledBrowser): Promise<void> {
+    worker.scans++;
+    worker.busy = false;
+
+    if (worker.crashed || worker.scans >= this.maxScansPerBrowser || this.isShuttingDown) {
+      this.workers = this.workers.filter(w => w !== worker);
+      await this.closeWorker(worker);
+    }
+
+    this.dispatch();
+  }
+
+  private dispatch(): void {
+    const waiter = this.queue.shift();
+    if (!waiter) return;
+
+    const idle = this.workers.find(worker => !worker.busy && !worker.crashed);
+    if (idle) {
+      idle.busy = true;
+      waiter.resolve(idle);
+      return;
+    }
+
+    if (this.workers.length + this.launching < this.maxSize) {
+      this.launchWorker()
+        .then(worker => {
+          worker.busy = true;
+          waiter.resolve(worker);
+        })
+        .catch(error => {
+          waiter.reject(error);
+          this.dispatch();
+        });
+      return;
+    }
+
+    this.queue.unshift(waiter);
+  }
+
+  private async launchWorker(): Promise<PooledBrowser> {
+    this.launching++;
+
+    try {
+      const browser = await chromium.launch();
+      const worker: PooledBrowser = {
+        id: this.nextId++,
+        browser,
+        scans: 0,
+        busy: false,
+        crashed: false
+      };
+
+      browser.on('disconnected', () => {
+        worker.crashed = true;
+        if (!worker.busy) {
+          this.workers = this.workers.filter(w => w !== worker);
+          this.dispatch();
+        }
+      });
+
+      this.workers.push(worker);
+      console.log('Launched pooled browser', { browserId: worker.id, poolSize: this.workers.length });
+      return worker;
+    } finally {
+      this.launching--;
+    }
+  }
+
+  private async closeWorker(worker: PooledBrowser): Promise<void> {
+    // Closing fires 'disconnected', which marks the worker as crashed
+    const crashed = worker.crashed;
+    try {
+      if (worker.browser.isConnected()) {
+        await worker.browser.close();
+      }
+      console.log('Recycled pooled browser', { browserId: worker.id, scans: worker.scans, crashed });
+    } catch (error) {
+      console.error('Error closing pooled browser:', error);
+    }
+  }
+}
+
+let sharedPool: BrowserPool | null = null;
+
+export function getBrowserPool(): BrowserPool {
+  if (!sharedPool) {
+    sharedPool = new BrowserPool();
+  }
+  return sharedPool;
+}
@@ -0,0 +1,132 @@
+import { BrowserContextOptions } from 'playwright';
+
+export interface EmailClientProfile {
+  name: string;
+  description: string;
+  context: BrowserContextOptions;
+  preprocess: (html: string) => string;
+}
+
+const DESKTOP_CHROME_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const OUTLOOK_UA = 'Mozilla/4.0 (compatible; ms-office; MSOffice 16; Microsoft Outlook 16.0.17126; Pro)';
+const IOS_MAIL_UA = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Mobile/15E148';
+
+// Gmail clips messages and drops embedded styles once they exceed this size
+const GMAIL_STYLE_LIMIT = 8192;
+
+// CSS that the Word rendering engine used by desktop Outlook ignores
+const OUTLOOK_UNSUPPORTED_CSS = [
+  'background-image',
+  'background-size',
+  'border-radius',
+  'box-shadow',
+  'display',
+  'float',
+  'max-width',
+  'max-height',
+  'min-width',
+  'min-height',
+  'opacity',
+  'position',
+  'transform',
+  'transition',
+  'animation'
+];
+
+function removeScripts(html: string): string {
+  return html
+    .replace(/<script\b[^>]*>[\s\S]*?<\/script>/gi, '')
+    .replace(/\son\w+\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/gi, '');
+}
+
+function removeExternalStylesheets(html: string): string {
+  return html.replace(/<link\b[^>]*rel\s*=\s*["']?stylesheet["']?[^>]*>/gi, '');
+}
+
+function removeStyleBlocks(html: string): string {
+  return html.replace(/<style\b[^>]*>[\s\S]*?<\/style>/gi, '');
+}
+
+function stripCssDeclarations(css: string, properties: string[]): string {
+  return css
+    .split(/;(?![^(]*\))/)
+    .filter(declaration => {
+      const property = declaration.split(':')[0].trim().toLowerCase();
+      return !properties.includes(property);
+    })
+    .join(';');
+}
+
+function stripCssProperties(html: string, properties: string[]): string {
+  return html
+    .replace(/(\sstyle\s*=\s*)"([^"]*)"/gi, (_, prefix, css) => `${prefix}"${stripCssDeclarations(css, properties)}"`)
+    .replace(/(\sstyle\s*=\s*)'([^']*)'/gi, (_, prefix, css) => `${prefix}'${stripCssDeclarations(css, properties)}'`)
+    .replace(/(<style\b[^>]*>)([\s\S]*?)(<\/style>)/gi, (_, open, css, close) =>
+      `${open}${css.replace(/\{([^{}]*)\}/g, (__: string, body: string) => `{${stripCssDeclarations(body, properties)}}`)}${close}`
+    );
+}
+
+function totalStyleLength(html: string): number {
+  const blocks = html.match(/<style\b[^>]*>[\s\S]*?<\/style>/gi) || [];
+  return blocks.reduce((total, block) => total + block.length, 0);
+}
+
+export const EMAIL_CLIENT_PROFILES: Record<string, EmailClientProfile> = {
+  'gmail-web': {
+    name: 'gmail-web',
+    description: 'Gmail in a desktop browser: scripts and linked stylesheets removed, oversized <style> blocks dropped',
+    context: {
+      viewport: { width: 1280, height: 800 },
+      colorScheme: 'light',
+      userAgent: DESKTOP_CHROME_UA
+    },
+    preprocess: (html) => {
+      let processed = removeExternalStylesheets(removeScripts(html));
+      if (totalStyleLength(processed) > GMAIL_STYLE_LIMIT) {
+        processed = removeStyleBlocks(processed);
+      }
+      return stripCssProperties(processed, ['position']);
+    }
+  },
+  'outlook-desktop': {
+    name: 'outlook-desktop',
+    description: 'Outlook for Windows (Word engine): unsupported CSS such as display, float and background images removed',
+    context: {
+      viewport: { width: 1024, height: 768 },
+      colorScheme: 'light',
+      userAgent: OUTLOOK_UA
+    },
+    preprocess: (html) => stripCssProperties(removeExternalStylesheets(removeScripts(html)), OUTLOOK_UNSUPPORTED_CSS)
+  },
+  'apple-mail-ios': {
+    name: 'apple-mail-ios',
+    description: 'Apple Mail on iPhone: mobile viewport with full WebKit CSS support',
+    context: {
+      viewport: { width: 375, height: 812 },
+      deviceScaleFactor: 3,
+      isMobile: true,
+      hasTouch: true,
+      colorScheme: 'light',
+      userAgent: IOS_MAIL_UA
+    },
+    preprocess: (html) => removeScripts(html)
+  },
+  'dark-mode': {
+    name: 'dark-mode',
+    description: 'Desktop client with prefers-color-scheme: dark',
+    context: {
+      viewport: { width: 1280, height: 800 },
+      colorScheme: 'dark',
+      userAgent: DESKTOP_CHROME_UA
+    },
+    preprocess: (html) => removeScripts(html)
+  }
+};
+
+export function getEmailClientProfile(name: string): EmailClientProfile | undefined {
+  return Object.prototype.hasOwnProperty.call(EMAIL_CLIENT_PROFILES, name) ? EMAIL_CLIENT_PROFILES[name] : undefined;
+}
+
+export function listEmailClientProfiles(): { name: string; description: string }[] {
+  return Object.values(EMAIL_CLIENT_PROFILES).map(({ name, description }) => ({ name, description }));
+}
@@ -1,50 +1,312 @@
-import { MailHogService } from './MailHogService';
+import { InboxProvider, getInbox } from './InboxProvider';
 import { AccessibilityScanner } from './AccessibilityScanner';
-import { EmailData } from '@/types';
+import { ScanHistoryService, getScanHistory } from './ScanHistoryService';
+import { JsonFileProcessedEmailStore, ProcessedEmailStore } from './ProcessedEmailStore';
+import { ScoringService, getScoringService } from './ScoringService';
+import { EmailData, ScanResult } from '@/types';
 
 export interface EmailEvent {
+  /** Monotonically increasing id, sent as the SSE `id:` field; unset for per-client status events. */
+  id?: number;
   type: 'email_received' | 'scan_complete' | 'scan_error' | 'status_update';
   data: any;
   timestamp: string;
 }
 
+export const EMAIL_EVENT_TYPES: EmailEvent['type'][] = ['email_received', 'scan_complete', 'scan_error', 'status_update'];
+
+/**
+ * Per-client event filters. Matching is case-insensitive and by substring;
+ * events that are not about a specific email always pass.
+ */
+export interface EmailEventFilter {
+  types?: EmailEvent['type'][];
+  subject?: string;
+  from?: string;
+  to?: string;
+  /** Only events about these emails; other email events are dropped. */
+  emailIds?: string[];
+}
+
+export interface AddClientOptions {
+  /** Replay buffered events with a greater id, as sent by a reconnecting EventSource. */
+  lastEventId?: number;
+  filter?: EmailEventFilter;
+}
+
+/**
+ * A connected event consumer. SSE responses and WebSockets both register
+ * through this, so they share filters, replay and heartbeats.
+ */
+export interface EmailEventClient {
+  filter: EmailEventFilter;
+  /** Throws when the connection is gone, which unregisters the client. */
+  send(event: EmailEvent): void;
+  heartbeat(): void;
+}
+
+export interface EmailListenerStatus {
+  paused: boolean;
+  polling: boolean;
+  pending: number;
+  activeScans: number;
+  clients: number;
+}
+
+const CATCH_UP_PAGE_SIZE = 50;
+
+interface PendingEmail {
+  emailId?: string;
+  /** Already-fetched content; inbox messages found by a poll are fetched when their scan starts. */
+  data?: EmailData;
+}
+
 export class EmailListenerService {
-  private mailHogService: MailHogService;
+  private inbox: InboxProvider;
   private accessibilityScanner: AccessibilityScanner;
-  private clients: Set<any> = new Set();
-  private lastEmailId: string | null = null;
+  private scanHistory: ScanHistoryService;
+  private processedEmails: ProcessedEmailStore;
+  private scoringService: ScoringService;
+  private clients: Set<EmailEventClient> = new Set();
+  private recentEvents: EmailEvent[] = [];
+  // Seeded from the clock so ids keep increasing across restarts and a
+  // client's Last-Event-ID is always older than the events of a new process
+  private nextEventId: number = Date.now();
+  private heartbeatInterval: NodeJS.Timeout | null = null;
+  private readonly bufferSize: number;
+  private readonly heartbeatMs: number;
   private isPolling: boolean = false;
   private pollingInterval: NodeJS.Timeout | null = null;
+  private pendingEmails: PendingEmail[] = [];
+  private queuedIds: Set<string> = new Set();
+  private activeScans: number = 0;
+  private isCatchingUp: boolean = false;
+  private paused: boolean = false;
+  private readonly concurrency: number;
 
-  constructor() {
-    this.mailHogService = new MailHogService();
+  constructor(processedEmails?: ProcessedEmailStore) {
+    this.inbox = getInbox();
     this.accessibilityScanner = new AccessibilityScanner();
+    this.scanHistory = getScanHistory();
+    this.processedEmails = processedEmails || new JsonFileProcessedEmailStore();
+    this.scoringService = getScoringService();
+    this.concurrency = Number(process.env.LISTENER_CONCURRENCY) || 2;
+    this.bufferSize = Number(process.env.SSE_BUFFER_SIZE) || 100;
+    this.heartbeatMs = Number(process.env.SSE_HEARTBEAT_INTERVAL) || 15000;
+
+    // Push-capable inboxes hand over each message as it arrives, so every
+    // one is scanned right away instead of waiting for the next poll
+    if (this.inbox.supportsPush) {
+      this.inbox.onMessage(emailData => this.enqueue(emailData));
+    }
+  }
+
+  /**
+   * Prepares the processed-id state on startup. With LISTENER_BACKFILL=true
+   * every message in the inbox that was never scanned is queued. Otherwise a
+   * fresh install marks the existing inbox as seen, so only new mail is scanned.
+   */
+  async start(): Promise<void> {
+    if (process.env.LISTENER_BACKFILL === 'true') {
+      const queued = await this.catchUp(true);
+      console.log('Email listener backfill queued', { queued });
+      return;
+    }
+
+    if (!(await this.processedEmails.isInitialized())) {
+      const existing = await this.collectUnseen(true);
+      await this.processedEmails.add(existing);
+      console.log('Email listener marked existing inbox as seen', { count: existing.length });
+    }
   }
 
-  addClient(res: any): void {
-    this.clients.add(res);
+  addClient(res: any, options: AddClientOptions = {}): void {
+    const client: EmailEventClient = {
+      filter: options.filter || {},
+      send: event => res.write(this.formatEvent(event)),
+      heartbeat: () => res.write(`: heartbeat ${new Date().toISOString()}\n\n`)
+    };
+
+    this.register(client, options.lastEventId);
+
+    // Handle client disconnect
+    res.on('close', () => this.unregister(client));
+  }
+
+  register(client: EmailEventClient, lastEventId?: number): void {
+    this.clients.add(client);
     
     // Send initial status
-    this.sendToClient(res, {
+    this.sendToClient(client, {
       type: 'status_update',
-      data: { status: 'listening', message: 'Email listener active' },
+      data: this.paused
+        ? { status: 'paused', message: 'Email listener paused' }
+        : { status: 'listening', message: 'Email listener active' },
       timestamp: new Date().toISOString()
     });
 
+    if (lastEventId !== undefined) {
+      this.replay(client, lastEventId);
+    }
+
     // Start polling if not already started
-    if (!this.isPolling) {
+    if (!this.isPolling && !this.inbox.supportsPush) {
       this.startPolling();
     }
+    this.startHeartbeat();
+  }
 
-    // Handle client disconnect
-    res.on('close', () => {
-      this.clients.delete(res);
-      if (this.clients.size === 0) {
-        this.stopPolling();
-      }
+  unregister(client: EmailEventClient): void {
+    this.clients.delete(client);
+    if (this.clients.size === 0) {
+      this.stopHeartbeat();
+      if (this.isPolling) this.stopPolling();
+    }
+  }
+
+  /**
+   * Stops starting new scans. Emails keep being queued and are scanned in
+   * order once the listener is resumed.
+   */
+  pause(): void {
+    if (this.paused) return;
+
+    this.paused = true;
+    this.broadcast({
+      type: 'status_update',
+      data: { status: 'paused', message: 'Email listener paused' },
+      timestamp: new Date().toISOString()
     });
   }
 
+  resume(): void {
+    if (!this.paused) return;
+
+    this.paused = false;
+    this.broadcast({
+      type: 'status_update',
+      data: { status: 'listening', message: 'Email listener active' },
+      timestamp: new Date().toISOString()
+    });
+    this.processPending();
+  }
+
+  /**
+   * Queues an inbox message for another scan, whether or not it was scanned
+   * before. Returns false when the message does not exist.
+   */
+  async rescan(emailId: string): Promise<boolean> {
+    if (this.queuedIds.has(emailId)) return true;
+
+    const emailData = await this.inbox.getEmailData(emailId);
+    if (!emailData) return false;
+
+    this.enqueue(emailData);
+    return true;
+  }
+
+  getStatus(): EmailListenerStatus {
+    return {
+      paused: this.paused,
+      polling: this.isPolling,
+      pending: this.pendingEmails.length,
+      activeScans: this.activeScans,
+      clients: this.clients.size
+    };
+  }
+
+  /**
+   * Queues an email for scanning. Emails start scanning in arrival order,
+   * at most LISTENER_CONCURRENCY at a time, and are broadcast like polled ones.
+   */
+  enqueue(emailData: EmailData): void {
+    this.queue({ emailId: emailData.emailId, data: emailData });
+  }
+
+  getPendingCount(): number {
+    return this.pendingEmails.length + this.activeScans;
+  }
+
+  private queue(email: PendingEmail): void {
+    if (email.emailId) {
+      if (this.queuedIds.has(email.emailId)) return;
+      this.queuedIds.add(email.emailId);
+    }
+
+    this.pendingEmails.push(email);
+    this.processPending();
+  }
+
+  private processPending(): void {
+    while (!this.paused && this.activeScans < this.concurrency && this.pendingEmails.length > 0) {
+      const email = this.pendingEmails.shift()!;
+      this.activeScans++;
+
+      this.processPendingEmail(email)
+        .catch(error => console.error('Email processing error:', error))
+        .finally(() => {
+          this.activeScans--;
+          if (email.emailId) this.queuedIds.delete(email.emailId);
+          this.processPending();
+        });
+    }
+  }
+
+  private async processPendingEmail(email: PendingEmail): Promise<void> {
+    const emailData = email.data || await this.inbox.getEmailData(email.emailId!);
+
+    // Deleted from the inbox while waiting in the queue
+    if (emailData) {
+      await this.processEmail(emailData);
+    }
+
+    // Failed scans are marked too; they are reported once instead of retried on every poll
+    if (email.emailId) {
+      await this.processedEmails.add([email.emailId]);
+    }
+  }
+
+  /**
+   * Queues every inbox message that was not processed yet, oldest first.
+   * Returns how many messages were queued.
+   */
+  private async catchUp(full: boolean): Promise<number> {
+    if (this.isCatchingUp) return 0;
+
+    this.isCatchingUp = true;
+    try {
+      const unseen = await this.collectUnseen(full);
+      unseen.forEach(emailId => this.queue({ emailId }));
+      return unseen.length;
+    } finally {
+      this.isCatchingUp = false;
+    }
+  }
+
+  /**
+   * Pages through the inbox newest first and returns the ids of messages that
+   * are neither processed nor queued, oldest first. Unless `full`, paging
+   * stops at the first page without any new message.
+   */
+  private async collectUnseen(full: boolean): Promise<string[]> {
+    const unseen: string[] = [];
+
+    for (let start = 0; ; start += CATCH_UP_PAGE_SIZE) {
+      const page = await this.inbox.listEmails({ start, limit: CATCH_UP_PAGE_SIZE });
+      let foundNew = false;
+
+      for (const item of page.items) {
+        if (this.queuedIds.has(item.id) || await this.processedEmails.has(item.id)) continue;
+        unseen.push(item.id);
+        foundNew = true;
+      }
+
+      if ((!full && !foundNew) || page.count < CATCH_UP_PAGE_SIZE || start + page.count >= page.total) break;
+    }
+
+    return unseen.reverse();
+  }
+
   private startPolling(): void {
     if (this.isPolling) return;
     
@@ -53,50 +315,7 @@ export class EmailListenerService {
     
     this.pollingInterval = setInterval(async () => {
       try {
-        const emailData = await this.mailHogService.checkForEmails();
-        
-        if (emailData.hasNewEmail && emailData.emailId !== this.lastEmailId) {
-          this.lastEmailId = emailData.emailId!;
-          
-          // Send email received event
-          this.broadcast({
-            type: 'email_received',
-            data: {
-              emailId: emailData.emailId,
-              subject: emailData.subject,
-              hasContent: !!emailData.htmlContent
-            },
-            timestamp: new Date().toISOString()
-          });
-
-          // If email has content, scan it
-          if (emailData.htmlContent && emailData.htmlContent.trim().length > 0) {
-            try {
-              const scanResults = await this.accessibilityScanner.scanHtml({
-                html: emailData.htmlContent
-              });
-              
-              this.broadcast({
-                type: 'scan_complete',
-                data: {
-                  emailId: emailData.emailId,
-                  subject: emailData.subject,
-                  results: scanResults
-                },
-                timestamp: new Date().toISOString()
-              });
-            } catch (error) {
-              this.broadcast({
-                type: 'scan_error',
-                data: {
-                  emailId: emailData.emailId,
-                  error: error instanceof Error ? error.message : 'Unknown error'
-                },
-                timestamp: new Date().toISOString()
-              });
-            }
-          }
-        }
+        await this.catchUp(false);
       } catch (error) {
         console.error('Email polling error:', error);
         this.broadcast({
@@ -110,6 +329,76 @@ export class EmailListenerService {
     }, 5000); // Poll every 5 seconds
   }
 
+  private async processEmail(emailData: EmailData): Promise<void> {
+    // Send email received event
+    this.broadcast({
+      type: 'email_received',
+      data: {
+        emailId: emailData.emailId,
+        subject: emailData.subject,
+        from: emailData.from,
+        to: emailData.to,
+        hasContent: !!emailData.htmlContent
+      },
+      timestamp: new Date().toISOString()
+    });
+
+    // If email has content, scan it
+    if (!emailData.htmlContent || emailData.htmlContent.trim().length === 0) return;
+
+    try {
+      const startTime = Date.now();
+      const scanResults = await this.accessibilityScanner.scanHtml({
+        html: emailData.htmlContent,
+        plainText: emailData.textContent
+      });
+      const scanId = await this.recordScan(emailData, scanResults, Date.now() - startTime);
+      
+      this.broadcast({
+        type: 'scan_complete',
+        data: {
+          emailId: emailData.emailId,
+          subject: emailData.subject,
+          from: emailData.from,
+          to: emailData.to,
+          scanId,
+          score: this.scoringService.score(scanResults),
+          results: scanResults
+        },
+        timestamp: new Date().toISOString()
+      });
+    } catch (error) {
+      this.broadcast({
+        type: 'scan_error',
+        data: {
+          emailId: emailData.emailId,
+          subject: emailData.subject,
+          from: emailData.from,
+          to: emailData.to,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        },
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  private async recordScan(emailData: EmailData, results: ScanResult, durationMs: number): Promise<string | undefined> {
+    try {
+      const record = await this.scanHistory.record({
+        html: emailData.htmlContent || '',
+        result: results,
+        durationMs,
+        source: 'email',
+        emailId: emailData.emailId,
+        subject: emailData.subject
+      });
+      return record.id;
+    } catch (error) {
+      console.error('Failed to record scan history:', error);
+      return undefined;
+    }
+  }
+
   private stopPolling(): void {
     if (this.pollingInterval) {
       clearInterval(this.pollingInterval);
@@ -119,28 +408,85 @@ export class EmailListenerService {
     console.log('Stopped email polling - no active clients');
   }
 
-  private sendToClient(res: any, event: EmailEvent): void {
+  private sendToClient(client: EmailEventClient, event: EmailEvent): void {
     try {
-      res.write(`data: ${JSON.stringify(event)}\n\n`);
+      client.send(event);
     } catch (error) {
-      console.error('Error sending SSE event:', error);
-      this.clients.delete(res);
+      console.error('Error sending event to client:', error);
+      this.unregister(client);
     }
   }
 
   private broadcast(event: EmailEvent): void {
-    const deadClients: any[] = [];
+    const numbered: EmailEvent = { ...event, id: this.nextEventId++ };
+
+    this.recentEvents.push(numbered);
+    if (this.recentEvents.length > this.bufferSize) {
+      this.recentEvents.shift();
+    }
+
+    const deadClients: EmailEventClient[] = [];
     
     this.clients.forEach(client => {
       try {
-        client.write(`data: ${JSON.stringify(event)}\n\n`);
+        if (!this.matchesFilter(numbered, client.filter)) return;
+        client.send(numbered);
       } catch (error) {
         deadClients.push(client);
       }
     });
 
     // Remove dead clients
-    deadClients.forEach(client => this.clients.delete(client));
+    deadClients.forEach(client => this.unregister(client));
+  }
+
+  /** Sends the buffered events newer than `lastEventId`. */
+  replay(client: EmailEventClient, lastEventId: number): void {
+    this.recentEvents
+      .filter(event => event.id! > lastEventId && this.matchesFilter(event, client.filter))
+      .forEach(event => this.sendToClient(client, event));
+  }
+
+  private matchesFilter(event: EmailEvent, filter: EmailEventFilter): boolean {
+    if (filter.types && filter.types.length > 0 && !filter.types.includes(event.type)) return false;
+    if (!event.data?.emailId) return true;
+    if (filter.emailIds && filter.emailIds.length > 0 && !filter.emailIds.includes(event.data.emailId)) return false;
+
+    const contains = (value: string | undefined, search: string) =>
+      (value || '').toLowerCase().includes(search.toLowerCase());
+
+    if (filter.subject && !contains(event.data.subject, filter.subject)) return false;
+    if (filter.from && !contains(event.data.from, filter.from)) return false;
+    if (filter.to && !(event.data.to || []).some((to: string) => contains(to, filter.to!))) return false;
+
+    return true;
+  }
+
+  private formatEvent(event: EmailEvent): string {
+    const id = event.id !== undefined ? `id: ${event.id}\n` : '';
+    return `${id}event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeatInterval) return;
+
+    // Keeps proxies from closing idle connections; SSE clients get a comment line, ignored by EventSource
+    this.heartbeatInterval = setInterval(() => {
+      this.clients.forEach(client => {
+        try {
+          client.heartbeat();
+        } catch (error) {
+          this.unregister(client);
+        }
+      });
+    }, this.heartbeatMs);
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
   }
 
   getActiveClientsCount(): number {
@@ -148,6 +494,15 @@ export class EmailListenerService {
   }
 
   isActive(): boolean {
-    return this.isPolling;
+    return this.isPolling || this.inbox.supportsPush;
+  }
+}
+
+let sharedListener: EmailListenerService | null = null;
+
+export function getEmailListener(): EmailListenerService {
+  if (!sharedListener) {
+    sharedListener = new EmailListenerService();
   }
+  return sharedListener;
 }
@@ -0,0 +1,225 @@
+import { Page } from 'playwright';
+import { AccessibilityInapplicable, AccessibilityNode, AccessibilityPass, AccessibilityViolation } from '@/types';
+
+export interface EmailRuleContext {
+  /** Plain-text alternative part of the email; undefined when the scan did not come from an email. */
+  plainText?: string;
+  /** Rule ids to run; every email rule runs when omitted. */
+  ruleIds?: string[];
+  /** CSS selector limiting the rules to elements inside the matched region. */
+  selector?: string;
+}
+
+interface EmailRule {
+  id: string;
+  impact: 'critical' | 'serious' | 'moderate' | 'minor';
+  tags: string[];
+  description: string;
+  help: string;
+  helpUrl: string;
+}
+
+interface RuleFindings {
+  [ruleId: string]: AccessibilityNode[];
+}
+
+export interface EmailRuleResults {
+  violations: AccessibilityViolation[];
+  passes: AccessibilityPass[];
+  inapplicable: AccessibilityInapplicable[];
+}
+
+export const EMAIL_RULES: EmailRule[] = [
+  {
+    id: 'email-layout-table-role',
+    impact: 'moderate',
+    tags: ['email', 'cat.structure', 'wcag2a', 'wcag131'],
+    description: 'Ensures layout tables are marked with role="presentation" so screen readers do not announce them as data tables',
+    help: 'Layout tables must have role="presentation"',
+    helpUrl: 'https://www.w3.org/WAI/tutorials/tables/'
+  },
+  {
+    id: 'email-html-lang',
+    impact: 'serious',
+    tags: ['email', 'cat.language', 'wcag2a', 'wcag311'],
+    description: 'Ensures the <html> element of the email declares a lang attribute',
+    help: 'The <html> element must have a lang attribute',
+    helpUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/language-of-page.html'
+  },
+  {
+    id: 'email-document-title',
+    impact: 'serious',
+    tags: ['email', 'cat.text-alternatives', 'wcag2a', 'wcag242'],
+    description: 'Ensures the email has a non-empty <title>, which some clients announce when the message is opened',
+    help: 'Emails must have a <title>',
+    helpUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/page-titled.html'
+  },
+  {
+    id: 'email-image-text',
+    impact: 'serious',
+    tags: ['email', 'cat.text-alternatives', 'wcag2aa', 'wcag145'],
+    description: 'Detects images that appear to carry critical text, which is lost when images are blocked and cannot be resized',
+    help: 'Critical text must not be delivered only as an image',
+    helpUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/images-of-text.html'
+  },
+  {
+    id: 'email-plain-text-alternative',
+    impact: 'moderate',
+    tags: ['email', 'best-practice'],
+    description: 'Ensures the email includes a non-empty text/plain alternative part',
+    help: 'Emails must include a plain-text alternative',
+    helpUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/non-text-content.html'
+  },
+  {
+    id: 'email-font-size',
+    impact: 'moderate',
+    tags: ['email', 'cat.sensory-and-visual-cues', 'wcag2aa', 'wcag144'],
+    description: 'Detects inline font sizes too small to read comfortably, especially on mobile clients',
+    help: 'Text must not use tiny inline font sizes',
+    helpUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/resize-text.html'
+  },
+  {
+    id: 'email-link-text-url',
+    impact: 'moderate',
+    tags: ['email', 'cat.name-role-value', 'wcag2a', 'wcag244'],
+    description: 'Detects links whose only text is a raw URL, which screen readers read out character by character',
+    help: 'Link text must describe the destination instead of showing the raw URL',
+    helpUrl: 'https://www.w3.org/WAI/WCAG21/Understanding/link-purpose-in-context.html'
+  }
+];
+
+/** Rules about the message as a whole, which a region of it cannot fail. */
+const DOCUMENT_RULES = ['email-html-lang', 'email-document-title', 'email-plain-text-alternative'];
+
+export class EmailRuleEngine {
+  private readonly minFontSize: number;
+
+  constructor(minFontSize?: number) {
+    this.minFontSize = minFontSize || Number(process.env.EMAIL_MIN_FONT_SIZE) || 14;
+  }
+
+  /**
+   * Runs the email-specific rules against the page already rendered for axe
+   * and returns them in the same shape as axe results. With a selector only
+   * elements inside the matched region are checked, and the document-level
+   * rules are inapplicable.
+   */
+  async run(page: Page, context: EmailRuleContext = {}): Promise<EmailRuleResults> {
+    const findings: RuleFindings = await page.evaluate(({ minFontSize, selector }) => {
+      const results: { [ruleId: string]: { target: string[]; html: string; failureSummary: string }[] } = {};
+      const regions = selector ? Array.from(document.querySelectorAll(selector)) : [document.documentElement];
+
+      const queryAll = <E extends Element = Element>(query: string): E[] =>
+        Array.from(document.querySelectorAll<E>(query)).filter(element => regions.some(region => region.contains(element)));
+
+      const selectorFor = (element: Element): string => {
+        if (element.id && document.querySelectorAll(`#${CSS.escape(element.id)}`).length === 1) {
+          return `#${CSS.escape(element.id)}`;
+        }
+        const parts: string[] = [];
+        let current: Element | null = element;
+        while (current && current !== document.documentElement) {
+          const parent: Element | null = current.parentElement;
+          const tag = current.tagName.toLowerCase();
+          if (!parent) {
+            parts.unshift(tag);
+            break;
+          }
+          const index = Array.from(parent.children).indexOf(current) + 1;
+          parts.unshift(`${tag}:nth-child(${index})`);
+          current = parent;
+        }
+        parts.unshift('html');
+        return parts.join(' > ');
+      };
+
+      const report = (ruleId: string, element: Element, failureSummary: string) => {
+        const html = element.outerHTML;
+        (results[ruleId] = results[ruleId] || []).push({
+          target: [element === document.documentElement ? 'html' : selectorFor(element)],
+          html: html.length > 300 ? `${html.substring(0, 300)}...` : html,
+          failureSummary
+        });
+      };
+
+      // Layout tables: no headers or caption and not already presentational
+      queryAll('table').forEach(table => {
+        const role = (table.getAttribute('role') || '').toLowerCase();
+        if (role === 'presentation' || role === 'none') return;
+        if (table.querySelector('th, caption, thead') || table.getAttribute('summary')) return;
+        report('email-layout-table-role', table, 'Fix this: add role="presentation" to the layout table');
+      });
+
+      if (!selector && !(document.documentElement.getAttribute('lang') || '').trim()) {
+        report('email-html-lang', document.documentElement, 'Fix this: add a lang attribute such as lang="en" to <html>');
+      }
+
+      if (!selector && !(document.title || '').trim()) {
+        report('email-document-title', document.documentElement, 'Fix this: add a <title> describing the email to <head>');
+      }
+
+      // Images of text: image-only emails and images whose file names suggest text
+      const images = queryAll<HTMLImageElement>('img');
+      const bodyText = (selector
+        ? regions.map(region => (region as HTMLElement).innerText || '').join('')
+        : document.body?.innerText || '').replace(/\s+/g, '');
+      const isImageOnly = images.length > 0 && bodyText.length < 50;
+      images.forEach(image => {
+        const src = image.getAttribute('src') || '';
+        const fileName = src.split('?')[0].split('/').pop() || '';
+        const textLikeName = /(text|headline|heading|title|banner|header|hero|cta|button|copy|offer|promo)/i.test(fileName);
+        const isLarge = (image.width || Number(image.getAttribute('width')) || 0) >= 200;
+        if (isImageOnly && isLarge) {
+          report('email-image-text', image, 'Fix this: the email is made of images; deliver the key message as live HTML text');
+        } else if (textLikeName && isLarge) {
+          report('email-image-text', image, 'Fix this: this image appears to contain text; move the text into HTML and keep the image decorative');
+        }
+      });
+
+      // Tiny inline font sizes
+      queryAll<HTMLElement>('[style*="font-size"]').forEach(element => {
+        const match = element.style.fontSize.match(/^([\d.]+)(px|pt)$/);
+        if (!match) return;
+        const size = match[2] === 'pt' ? Number(match[1]) * 4 / 3 : Number(match[1]);
+        if (size < minFontSize && (element.textContent || '').trim()) {
+          report('email-font-size', element, `Fix this: increase the inline font size from ${element.style.fontSize} to at least ${minFontSize}px`);
+        }
+      });
+
+      // Links whose visible text is a raw URL
+      queryAll('a[href]').forEach(link => {
+        const text = (link.textContent || '').trim();
+        if (/^(https?:\/\/|www\.)\S+$/i.test(text) && !link.getAttribute('aria-label')) {
+          report('email-link-text-url', link, 'Fix this: replace the raw URL with text describing the destination');
+        }
+      });
+
+      return results;
+    }, { minFontSize: this.minFontSize, selector: context.selector || null });
+
+    if (!context.selector && context.plainText !== undefined && context.plainText.trim().length === 0) {
+      findings['email-plain-text-alternative'] = [{
+        target: ['html'],
+        html: '<html>',
+        failureSummary: 'Fix this: send the email as multipart/alternative with a text/plain part'
+      }];
+    }
+
+    const results: EmailRuleResults = { violations: [], passes: [], inapplicable: [] };
+
+    EMAIL_RULES.filter(rule => !context.ruleIds || context.ruleIds.includes(rule.id)).forEach(rule => {
+      const nodes = findings[rule.id] || [];
+
+      if (nodes.length > 0) {
+        results.violations.push({ ...rule, nodes });
+      } else if ((context.selector && DOCUMENT_RULES.includes(rule.id)) ||
+        (rule.id === 'email-plain-text-alternative' && context.plainText === undefined)) {
+        results.inapplicable.push({ id: rule.id, impact: null, tags: rule.tags, description: rule.description, nodes: [] });
+      } else {
+        results.passes.push({ id: rule.id, impact: null, tags: rule.tags, description: rule.description, nodes: [] });
+      }
+    });
+
+    return results;
+  }
+}
@@ -0,0 +1,240 @@
+import { IncomingMessage, Server } from 'http';
+import { RawData, WebSocket, WebSocketServer } from 'ws';
+import {
+  EMAIL_EVENT_TYPES,
+  EmailEvent,
+  EmailEventClient,
+  EmailEventFilter,
+  EmailListenerService,
+  getEmailListener
+} from './EmailListenerService';
+
+interface CommandBase {
+  /** Echoed back in the ack so clients can match responses to commands. */
+  requestId?: string;
+}
+
+export type SocketCommand =
+  | CommandBase & { type: 'subscribe'; emailId?: string; filter?: EmailEventFilter }
+  | CommandBase & { type: 'unsubscribe'; emailId?: string }
+  | CommandBase & { type: 'rescan'; emailId: string }
+  | CommandBase & { type: 'replay'; lastEventId: number }
+  | CommandBase & { type: 'pause' }
+  | CommandBase & { type: 'resume' }
+  | CommandBase & { type: 'status' };
+
+export interface SocketAck {
+  type: 'ack';
+  command: string;
+  requestId?: string;
+  ok: boolean;
+  data?: any;
+  error?: string;
+  timestamp: string;
+}
+
+const COMMAND_TYPES: SocketCommand['type'][] = ['subscribe', 'unsubscribe', 'rescan', 'replay', 'pause', 'resume', 'status'];
+
+export class EmailSocketService {
+  private emailListener: EmailListenerService;
+  private server: WebSocketServer | null = null;
+  private readonly path: string;
+
+  constructor(emailListener: EmailListenerService = getEmailListener()) {
+    this.emailListener = emailListener;
+    this.path = process.env.WS_PATH || '/api/ws';
+  }
+
+  /**
+   * Accepts WebSocket upgrades on the HTTP server. Clients receive the same
+   * `EmailEvent` payloads as `/api/events` and may send `SocketCommand`s, each
+   * answered with a `SocketAck`.
+   */
+  attach(httpServer: Server): void {
+    if (this.server) return;
+
+    this.server = new WebSocketServer({
+      server: httpServer,
+      path: this.path,
+      maxPayload: 64 * 1024,
+      verifyClient: ({ origin }: { origin: string }) => this.isAllowedOrigin(origin)
+    });
+
+    this.server.on('connection', (socket, req) => this.handleConnection(socket, req));
+    this.server.on('error', (error) => {
+      console.error('WebSocket server error:', error);
+    });
+  }
+
+  async close(): Promise<void> {
+    if (!this.server) return;
+
+    const server = this.server;
+    this.server = null;
+    server.clients.forEach(socket => socket.close(1001, 'Server shutting down'));
+    await new Promise<void>(resolve => server.close(() => resolve()));
+  }
+
+  private handleConnection(socket: WebSocket, req: IncomingMessage): void {
+    const query = new URL(req.url || '', 'http://localhost').searchParams;
+    const lastEventId = Number(query.get('lastEventId') ?? undefined);
+    let isAlive = true;
+
+    const client: EmailEventClient = {
+      filter: {
+        types: this.parseTypes(query.get('types')),
+        subject: query.get('subject') || undefined,
+        from: query.get('from') || undefined,
+        to: query.get('to') || undefined
+      },
+      send: event => this.sendJson(socket, event),
+      heartbeat: () => {
+        // No pong since the last ping: the connection is dead
+        if (!isAlive) {
+          socket.terminate();
+          return;
+        }
+        isAlive = false;
+        socket.ping();
+      }
+    };
+
+    socket.on('pong', () => {
+      isAlive = true;
+    });
+    socket.on('message', (data: RawData) => {
+      this.handleCommand(client, socket, data).catch(error => {
+        console.error('WebSocket command error:', error);
+      });
+    });
+    socket.on('close', () => this.emailListener.unregister(client));
+    socket.on('error', (error) => {
+      console.error('WebSocket client error:', error);
+    });
+
+    this.emailListener.register(client, Number.isInteger(lastEventId) && lastEventId >= 0 ? lastEventId : undefined);
+  }
+
+  private async handleCommand(client: EmailEventClient, socket: WebSocket, data: RawData): Promise<void> {
+    let command: SocketCommand;
+    try {
+      command = JSON.parse(data.toString());
+    } catch (error) {
+      this.ack(socket, { command: 'unknown', ok: false, error: 'Commands must be JSON' });
+      return;
+    }
+
+    const reply = (ack: { ok: boolean; data?: any; error?: string }) =>
+      this.ack(socket, { command: String(command?.type), requestId: command?.requestId, ...ack });
+
+    if (!command || !COMMAND_TYPES.includes(command.type)) {
+      reply({ ok: false, error: `Unknown command. Valid commands: ${COMMAND_TYPES.join(', ')}` });
+      return;
+    }
+
+    switch (command.type) {
+      case 'subscribe': {
+        if (command.emailId !== undefined && typeof command.emailId !== 'string') {
+          reply({ ok: false, error: 'emailId must be a string' });
+          return;
+        }
+        if (command.filter?.types && (!Array.isArray(command.filter.types) ||
+          command.filter.types.some(type => !EMAIL_EVENT_TYPES.includes(type)))) {
+          reply({ ok: false, error: `filter.types must only contain: ${EMAIL_EVENT_TYPES.join(', ')}` });
+          return;
+        }
+        const invalidField = (['subject', 'from', 'to'] as const)
+          .find(field => command.filter?.[field] !== undefined && typeof command.filter[field] !== 'string');
+        if (invalidField) {
+          reply({ ok: false, error: `filter.${invalidField} must be a string` });
+          return;
+        }
+
+        if (command.filter) {
+          const { types, subject, from, to } = command.filter;
+          client.filter = { ...client.filter, types, subject, from, to };
+        }
+        if (command.emailId) {
+          client.filter.emailIds = Array.from(new Set([...(client.filter.emailIds || []), command.emailId]));
+        }
+        reply({ ok: true, data: { filter: client.filter } });
+        return;
+      }
+
+      case 'unsubscribe':
+        if (command.emailId) {
+          client.filter.emailIds = (client.filter.emailIds || []).filter(id => id !== command.emailId);
+        } else {
+          client.filter = {};
+        }
+        reply({ ok: true, data: { filter: client.filter } });
+        return;
+
+      case 'rescan': {
+        if (!command.emailId || typeof command.emailId !== 'string') {
+          reply({ ok: false, error: 'emailId is required' });
+          return;
+        }
+
+        const queued = await this.emailListener.rescan(command.emailId);
+        reply(queued
+          ? { ok: true, data: { emailId: command.emailId, queued: true } }
+          : { ok: false, error: `Email not found: ${command.emailId}` });
+        return;
+      }
+
+      case 'replay':
+        if (!Number.isInteger(command.lastEventId) || command.lastEventId < 0) {
+          reply({ ok: false, error: 'lastEventId must be a non-negative integer' });
+          return;
+        }
+        reply({ ok: true });
+        this.emailListener.replay(client, command.lastEventId);
+        return;
+
+      case 'pause':
+        this.emailListener.pause();
+        reply({ ok: true, data: this.emailListener.getStatus() });
+        return;
+
+      case 'resume':
+        this.emailListener.resume();
+        reply({ ok: true, data: this.emailListener.getStatus() });
+        return;
+
+      case 'status':
+        reply({ ok: true, data: this.emailListener.getStatus() });
+        return;
+    }
+  }
+
+  private ack(socket: WebSocket, ack: Omit<SocketAck, 'type' | 'timestamp'>): void {
+    try {
+      this.sendJson(socket, { type: 'ack', ...ack, timestamp: new Date().toISOString() });
+    } catch (error) {
+      console.error('Error sending WebSocket ack:', error);
+    }
+  }
+
+  private sendJson(socket: WebSocket, payload: EmailEvent | SocketAck): void {
+    if (socket.readyState !== WebSocket.OPEN) {
+      throw new Error('WebSocket is not open');
+    }
+    socket.send(JSON.stringify(payload));
+  }
+
+  private parseTypes(value: string | null): EmailEvent['type'][] | undefined {
+    if (!value) return undefined;
+
+    const types = value.split(',').map(type => type.trim()) as EmailEvent['type'][];
+    return types.filter(type => EMAIL_EVENT_TYPES.includes(type));
+  }
+
+  /**
+   * Browsers send an Origin header, which must match the configured frontend;
+   * server-side clients without one are allowed.
+   */
+  private isAllowedOrigin(origin: string | undefined): boolean {
+    return !origin || origin === (process.env.CORS_ORIGIN || 'http://localhost:3000');
+  }
+}
@@ -0,0 +1,56 @@
+import { randomUUID } from 'crypto';
+import { MimeFormFile, UploadedEmail } from '@/types';
+import { MimeParser } from './MimeParser';
+
+export class EmailUploadService {
+  private mimeParser: MimeParser;
+
+  constructor() {
+    this.mimeParser = new MimeParser();
+  }
+
+  /**
+   * Reads the files and text fields of a multipart/form-data upload. Returns
+   * null when the body is not multipart or has no boundary.
+   */
+  readForm(contentType: string, body: Buffer): { files: MimeFormFile[]; fields: Record<string, string> } | null {
+    const type = contentType.split(';')[0].trim().toLowerCase();
+    const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+    if (type !== 'multipart/form-data' || !boundary) return null;
+
+    return {
+      files: this.mimeParser.parseFormFiles(body, boundary),
+      fields: this.mimeParser.parseFormData(body, boundary)
+    };
+  }
+
+  isEmlFile(file: MimeFormFile): boolean {
+    return /\.eml$/i.test(file.filename) || file.contentType === 'message/rfc822';
+  }
+
+  /**
+   * Parses an uploaded .eml into the shape of inbox messages. Inline images
+   * referenced by `cid:` are embedded in the HTML as data URIs, and a message
+   * without an HTML part is scanned as its text part.
+   */
+  parse(file: MimeFormFile): UploadedEmail {
+    const parsed = this.mimeParser.parse(file.content);
+    const htmlContent = this.mimeParser.htmlOrText(parsed.html, parsed.text);
+
+    return {
+      hasNewEmail: true,
+      emailId: `upload-${randomUUID()}`,
+      htmlContent,
+      textContent: parsed.text,
+      subject: parsed.subject || 'Test Email',
+      from: parsed.from,
+      to: parsed.to,
+      filename: file.filename,
+      messageId: parsed.messageId,
+      cc: parsed.cc,
+      date: parsed.date,
+      headers: parsed.headers,
+      attachments: parsed.attachments.map(({ content, ...attachment }) => attachment)
+    };
+  }
+}
@@ -0,0 +1,420 @@
+import { createTwoFilesPatch } from 'diff';
+import { AccessibilityNode, FixSuggestion, ResolvedAxeOptions, ScanFixResult, ScanResult } from '@/types';
+import { AccessibilityScanner } from './AccessibilityScanner';
+import { BrowserPool, getBrowserPool } from './BrowserPool';
+
+export const FIXABLE_RULES = [
+  'image-alt',
+  'label',
+  'link-name',
+  'html-has-lang',
+  'document-title',
+  'email-html-lang',
+  'email-document-title',
+  'email-layout-table-role'
+];
+
+// Elements whose content is raw text, so tags inside them are not elements
+const RAW_TEXT_ELEMENTS = ['script', 'style', 'textarea', 'title', 'xmp'];
+
+/** What the browser reports about a violating element, to find it in the source. */
+interface NodeLocation {
+  tagName: string;
+  /** Position among elements with the same tag name, in document order. */
+  index: number;
+  attributes: Record<string, string>;
+  imageSrc?: string;
+  heading?: string;
+  language?: string;
+}
+
+interface SourceTag {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+interface Candidate {
+  ruleId: string;
+  node: AccessibilityNode;
+  location: NodeLocation | null;
+}
+
+type Plan =
+  | { kind: 'attribute'; name: string; value: string; description: string; needsReview: boolean; tagName: string }
+  | { kind: 'title'; value: string; description: string; needsReview: boolean };
+
+export class FixSuggestionService {
+  private scanner: AccessibilityScanner;
+  private browserPool: BrowserPool;
+  private readonly defaultLanguage: string;
+
+  constructor(scanner: AccessibilityScanner = new AccessibilityScanner(), browserPool: BrowserPool = getBrowserPool()) {
+    this.scanner = scanner;
+    this.browserPool = browserPool;
+    this.defaultLanguage = process.env.FIX_DEFAULT_LANG || 'en';
+  }
+
+  /**
+   * Scans the HTML, patches the source of every fixable violation and rescans
+   * the result. Elements reported by the browser are matched to source tags by
+   * tag name and document order, so only the tags themselves are rewritten and
+   * the rest of the markup is left byte for byte.
+   */
+  async fix(html: string, axeOptions?: ResolvedAxeOptions): Promise<ScanFixResult> {
+    const before = await this.scanner.scanHtml({ html, axeOptions });
+    if (before.error) {
+      throw new Error(`Failed to scan HTML: ${before.error}`);
+    }
+
+    const fixable = before.violations
+      .filter(violation => FIXABLE_RULES.includes(violation.id))
+      .flatMap(violation => (violation.nodes || []).map(node => ({ ruleId: violation.id, node })));
+    const locations = fixable.length > 0 ? await this.locate(html, fixable.map(({ node }) => node.target || [])) : [];
+    const candidates: Candidate[] = fixable.map((candidate, index) => ({ ...candidate, location: locations[index] }));
+
+    const tags = this.sourceTags(html);
+    const tagEdits = new Map<SourceTag, string>();
+    let titleEdit: Edit | null = null;
+
+    const suggestions = candidates.map((candidate): FixSuggestion => {
+      const base = { ruleId: candidate.ruleId, target: candidate.node.target || [] };
+      const plan = candidate.location ? this.plan(candidate.ruleId, candidate.location) : null;
+
+      if (!plan) {
+        return {
+          ...base,
+          description: 'No automatic fix available',
+          before: candidate.node.html,
+          after: candidate.node.html,
+          applied: false,
+          needsReview: true,
+          reason: candidate.location
+            ? `Only ${this.supportedElements(candidate.ruleId)} elements can be patched for ${candidate.ruleId}`
+            : 'Element could not be located in the rendered HTML'
+        };
+      }
+
+      if (plan.kind === 'title') {
+        titleEdit = titleEdit || this.titleEdit(html, tags, plan.value);
+        return {
+          ...base,
+          description: plan.description,
+          before: html.substring(titleEdit.start, titleEdit.end),
+          after: titleEdit.text,
+          applied: true,
+          needsReview: plan.needsReview
+        };
+      }
+
+      const tag = tags.get(plan.tagName)?.[candidate.location!.index];
+      if (!tag) {
+        return {
+          ...base,
+          description: plan.description,
+          before: candidate.node.html,
+          after: candidate.node.html,
+          applied: false,
+          needsReview: plan.needsReview,
+          reason: `The <${plan.tagName}> tag is implied by the browser and missing from the source`
+        };
+      }
+
+      const current = tagEdits.get(tag) || tag.text;
+      tagEdits.set(tag, this.setAttribute(current, plan.name, plan.value));
+
+      return {
+        ...base,
+        description: plan.description,
+        before: tag.text,
+        after: this.setAttribute(tag.text, plan.name, plan.value),
+        applied: true,
+        needsReview: plan.needsReview
+      };
+    });
+
+    const edits: Edit[] = Array.from(tagEdits.entries()).map(([tag, text]) => ({ start: tag.start, end: tag.end, text }));
+    if (titleEdit) edits.push(titleEdit);
+
+    const patchedHtml = this.applyEdits(html, edits);
+    const after: ScanResult = edits.length > 0 ? await this.scanner.scanHtml({ html: patchedHtml, axeOptions }) : before;
+
+    suggestions.forEach(suggestion => {
+      if (!suggestion.applied || after.error) return;
+      suggestion.verified = !after.violations.some(violation =>
+        violation.id === suggestion.ruleId &&
+        violation.nodes.some(node => (node.target || []).join(' ') === suggestion.target.join(' '))
+      );
+    });
+
+    return {
+      suggestions,
+      patchedHtml,
+      diff: edits.length > 0 ? createTwoFilesPatch('original.html', 'patched.html', html, patchedHtml) : '',
+      verification: {
+        violationsBefore: before.violations.length,
+        violationsAfter: after.violations?.length || 0,
+        verified: suggestions.filter(suggestion => suggestion.verified === true).length,
+        unresolved: suggestions.filter(suggestion => suggestion.verified === false).length,
+        skipped: suggestions.filter(suggestion => !suggestion.applied).length
+      },
+      result: after
+    };
+  }
+
+  private plan(ruleId: string, location: NodeLocation): Plan | null {
+    const { tagName, attributes } = location;
+
+    switch (ruleId) {
+      case 'image-alt': {
+        if (tagName !== 'img') return null;
+
+        // Tracking pixels and spacers carry no information
+        if (Number(attributes.width) <= 1 && Number(attributes.height) <= 1) {
+          return { kind: 'attribute', tagName, name: 'alt', value: '', description: 'Mark the 1px image as decorative with an empty alt', needsReview: false };
+        }
+
+        const title = attributes.title?.trim();
+        return {
+          kind: 'attribute',
+          tagName,
+          name: 'alt',
+          value: title || this.fileLabel(attributes.src) || 'Image',
+          description: title ? 'Add alt text from the image title' : 'Add alt text derived from the image file name',
+          needsReview: true
+        };
+      }
+
+      case 'label': {
+        if (!['input', 'select', 'textarea'].includes(tagName)) return null;
+
+        const placeholder = attributes.placeholder?.trim();
+        return {
+          kind: 'attribute',
+          tagName,
+          name: 'aria-label',
+          value: placeholder || this.humanize(attributes.name || attributes.id || attributes.type || tagName),
+          description: placeholder ? 'Label the field with its placeholder text' : 'Label the field with its name',
+          needsReview: true
+        };
+      }
+
+      case 'link-name': {
+        if (tagName !== 'a') return null;
+
+        const title = attributes.title?.trim();
+        const imageLabel = this.fileLabel(location.imageSrc);
+        return {
+          kind: 'attribute',
+          tagName,
+          name: 'aria-label',
+          value: title || imageLabel || this.linkLabel(attributes.href),
+          description: title
+            ? 'Name the link with its title'
+            : imageLabel ? 'Name the image link after the image file name' : 'Name the link after its destination',
+          needsReview: true
+        };
+      }
+
+      case 'html-has-lang':
+      case 'email-html-lang': {
+        if (tagName !== 'html') return null;
+
+        const language = location.language?.split(',')[0].trim();
+        return {
+          kind: 'attribute',
+          tagName,
+          name: 'lang',
+          value: language || this.defaultLanguage,
+          description: language ? 'Declare the language from the Content-Language meta tag' : `Declare the default language "${this.defaultLanguage}"`,
+          needsReview: !language
+        };
+      }
+
+      case 'document-title':
+      case 'email-document-title':
+        return {
+          kind: 'title',
+          value: location.heading || 'Email',
+          description: location.heading ? 'Add a title from the first heading' : 'Add a generic title',
+          needsReview: true
+        };
+
+      case 'email-layout-table-role':
+        if (tagName !== 'table') return null;
+        return { kind: 'attribute', tagName, name: 'role', value: 'presentation', description: 'Mark the layout table as presentational', needsReview: false };
+
+      default:
+        return null;
+    }
+  }
+
+  private supportedElements(ruleId: string): string {
+    switch (ruleId) {
+      case 'image-alt': return '<img>';
+      case 'label': return '<input>, <select> and <textarea>';
+      case 'link-name': return '<a>';
+      case 'email-layout-table-role': return '<table>';
+      default: return '<html>';
+    }
+  }
+
+  /**
+   * Resolves each target selector in the rendered page. Targets with several
+   * parts point into iframes or shadow roots and are not located.
+   */
+  private async locate(html: string, targets: string[][]): Promise<(NodeLocation | null)[]> {
+    return this.browserPool.withContext(async (context) => {
+      const page = await context.newPage();
+      await page.setContent(html);
+
+      return page.evaluate((targets) => {
+        const heading = document.querySelector('h1, h2')?.textContent?.replace(/\s+/g, ' ').trim();
+        const language = document.querySelector('meta[http-equiv="content-language" i]')?.getAttribute('content');
+
+        return targets.map(target => {
+          if (target.length !== 1) return null;
+
+          let element: Element | null = null;
+          try {
+            element = document.querySelector(target[0]);
+          } catch (error) {
+            return null;
+          }
+          if (!element) return null;
+
+          const tagName = element.tagName.toLowerCase();
+          return {
+            tagName,
+            index: Array.from(document.getElementsByTagName(tagName)).indexOf(element),
+            attributes: Object.fromEntries(Array.from(element.attributes).map(attribute => [attribute.name, attribute.value])),
+            imageSrc: element.querySelector('img')?.getAttribute('src') || undefined,
+            heading: heading || undefined,
+            language: language || undefined
+          };
+        });
+      }, targets);
+    });
+  }
+
+  /**
+   * Lists the start tags in the source by tag name, in document order.
+   * Comments (including Outlook conditional comments) and raw-text content are
+   * skipped, as the browser does.
+   */
+  private sourceTags(html: string): Map<string, SourceTag[]> {
+    const tags = new Map<string, SourceTag[]>();
+    const lower = html.toLowerCase();
+    const pattern = /<!--[\s\S]*?(?:-->|$)|<([a-zA-Z][\w:-]*)(?:"[^"]*"|'[^']*'|[^'">])*>/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(html))) {
+      if (!match[1]) continue;
+
+      const name = match[1].toLowerCase();
+      const list = tags.get(name) || [];
+      list.push({ start: match.index, end: match.index + match[0].length, text: match[0] });
+      tags.set(name, list);
+
+      if (RAW_TEXT_ELEMENTS.includes(name)) {
+        const close = lower.indexOf(`</${name}`, pattern.lastIndex);
+        pattern.lastIndex = close === -1 ? html.length : close;
+      }
+    }
+
+    return tags;
+  }
+
+  /** Sets an attribute on a start tag, replacing an existing value. */
+  private setAttribute(tag: string, name: string, value: string): string {
+    const escaped = value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+    const tagName = tag.match(/^<[^\s/>]+/)![0];
+    const attributePattern = /\s+([^\s"'>\/=]+)(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s"'>]+))?/g;
+    attributePattern.lastIndex = tagName.length;
+    let match: RegExpExecArray | null;
+
+    while ((match = attributePattern.exec(tag))) {
+      if (match[1].toLowerCase() === name) {
+        return `${tag.substring(0, match.index)} ${name}="${escaped}"${tag.substring(match.index + match[0].length)}`;
+      }
+    }
+
+    return tag.replace(/(\s*\/?>)$/, ` ${name}="${escaped}"$1`);
+  }
+
+  private titleEdit(html: string, tags: Map<string, SourceTag[]>, value: string): Edit {
+    const title = `<title>${value.replace(/&/g, '&amp;').replace(/</g, '&lt;')}</title>`;
+
+    // An empty <title> gets its content replaced
+    const existing = tags.get('title')?.[0];
+    const close = existing ? html.toLowerCase().indexOf('</title', existing.end) : -1;
+    if (existing && close !== -1) {
+      const end = html.indexOf('>', close) + 1;
+      return { start: existing.start, end, text: title };
+    }
+
+    const head = tags.get('head')?.[0];
+    if (head) return { start: head.end, end: head.end, text: `\n${title}` };
+
+    const root = tags.get('html')?.[0];
+    if (root) return { start: root.end, end: root.end, text: `\n<head>${title}</head>` };
+
+    // Keep a doctype first so the document stays out of quirks mode
+    const doctype = html.match(/^\s*<!doctype[^>]*>/i);
+    const position = doctype ? doctype[0].length : 0;
+    return { start: position, end: position, text: doctype ? `\n${title}` : `${title}\n` };
+  }
+
+  private applyEdits(html: string, edits: Edit[]): string {
+    return [...edits]
+      .sort((a, b) => b.start - a.start)
+      .reduce((result, edit) => result.substring(0, edit.start) + edit.text + result.substring(edit.end), html);
+  }
+
+  private fileLabel(src: string | undefined): string | undefined {
+    if (!src || src.startsWith('data:')) return undefined;
+
+    const file = src.split(/[?#]/)[0].split('/').pop() || '';
+    const label = this.humanize(this.decodeFileName(file).replace(/\.[a-z0-9]+$/i, ''));
+    // Names like "a.png" or "1.gif" say nothing about the image
+    return label.length >= 3 ? label : undefined;
+  }
+
+  private linkLabel(href: string | undefined): string {
+    if (!href) return 'Link';
+    if (href.startsWith('mailto:')) return `Email ${href.substring(7).split('?')[0]}`;
+    if (href.startsWith('tel:')) return `Call ${href.substring(4)}`;
+
+    try {
+      const url = new URL(href);
+      const page = this.humanize(url.pathname.split('/').filter(Boolean).pop() || '');
+      return page ? `${page} - ${url.hostname}` : `Visit ${url.hostname}`;
+    } catch (error) {
+      return 'Link';
+    }
+  }
+
+  private humanize(value: string): string {
+    const words = value
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .replace(/[-_.\s]+/g, ' ')
+      .trim()
+      .toLowerCase();
+    return words.charAt(0).toUpperCase() + words.substring(1);
+  }
+
+  /** Decodes %-escapes, keeping names with a literal "%" such as 50%off.png as they are. */
+  private decodeFileName(file: string): string {
+    try {
+      return decodeURIComponent(file);
+    } catch (error) {
+      return file;
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { EmailData, InboundEmail } from '@/types';
+import { MimeParser } from './MimeParser';
+
+const RAW_MESSAGE_FIELDS = ['email', 'body-mime', 'raw', 'mime'];
+
+export class InboundEmailService {
+  private mimeParser: MimeParser;
+  private readonly secret: string | undefined;
+
+  constructor(secret?: string) {
+    this.mimeParser = new MimeParser();
+    this.secret = secret || process.env.INBOUND_WEBHOOK_SECRET || undefined;
+  }
+
+  isEnabled(): boolean {
+    return !!this.secret;
+  }
+
+  /**
+   * Checks a hex HMAC-SHA256 signature of the raw request body. The value may
+   * carry a `sha256=` prefix, as GitHub-style webhook senders add.
+   */
+  verifySignature(rawBody: Buffer, signature: string | undefined): boolean {
+    if (!this.secret || !signature) return false;
+
+    const provided = Buffer.from(signature.trim().replace(/^sha256=/i, ''), 'hex');
+    const expected = createHmac('sha256', this.secret).update(rawBody).digest();
+
+    return provided.length === expected.length && timingSafeEqual(provided, expected);
+  }
+
+  /**
+   * Turns an inbound webhook payload into an email. Accepts a raw RFC 822
+   * message, or JSON / form fields in SendGrid or Mailgun inbound parse style.
+   * Returns null when the payload holds no email.
+   */
+  parse(contentType: string, rawBody: Buffer, body: unknown): InboundEmail | null {
+    const type = contentType.split(';')[0].trim().toLowerCase();
+
+    if (type === 'message/rfc822' || type === 'text/plain' || type === 'application/octet-stream') {
+      return rawBody.length > 0 ? this.fromRawMessage(rawBody) : null;
+    }
+
+    let fields: Record<string, unknown>;
+    if (type === 'multipart/form-data') {
+      const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+      if (!boundary) return null;
+      fields = this.mimeParser.parseFormData(rawBody, boundary);
+    } else if (body && typeof body === 'object' && !Buffer.isBuffer(body)) {
+      fields = body as Record<string, unknown>;
+    } else {
+      return null;
+    }
+
+    return this.fromFields(fields);
+  }
+
+  toEmailData(email: InboundEmail): EmailData {
+    return {
+      hasNewEmail: true,
+      emailId: email.id,
+      htmlContent: email.html,
+      textContent: email.text,
+      subject: email.subject || 'Test Email',
+      from: email.from,
+      to: email.to
+    };
+  }
+
+  private fromRawMessage(raw: Buffer | string): InboundEmail {
+    const parsed = this.mimeParser.parse(raw);
+
+    return {
+      id: `inbound-${randomUUID()}`,
+      from: parsed.from,
+      to: parsed.to,
+      subject: parsed.subject,
+      html: this.mimeParser.htmlOrText(parsed.html, parsed.text),
+      text: parsed.text
+    };
+  }
+
+  private fromFields(fields: Record<string, unknown>): InboundEmail | null {
+    const field = (...names: string[]): string | undefined => {
+      for (const name of names) {
+        const value = fields[name];
+        if (typeof value === 'string' && value.length > 0) return value;
+      }
+      return undefined;
+    };
+
+    // Full MIME message fields (SendGrid "send raw", Mailgun MIME routes)
+    const raw = field(...RAW_MESSAGE_FIELDS);
+    if (raw) return this.fromRawMessage(raw);
+
+    const html = field('html', 'body-html', 'stripped-html');
+    const text = field('text', 'body-plain', 'stripped-text');
+    if (!html && !text) return null;
+
+    const to = field('to', 'recipient', 'To') || '';
+
+    return {
+      id: `inbound-${randomUUID()}`,
+      from: this.mimeParser.decodeHeader(field('from', 'sender', 'From') || ''),
+      to: to.split(',').map(address => address.trim()).filter(Boolean),
+      subject: this.mimeParser.decodeHeader(field('subject', 'Subject') || ''),
+      html: this.mimeParser.htmlOrText(html || '', text || ''),
+      text
+    };
+  }
+}
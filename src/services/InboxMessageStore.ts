@@ -0,0 +1,95 @@
+import fs from 'fs';
+import path from 'path';
+import { InboxMessage } from '@/types';
+
+/**
+ * Storage for messages received by the embedded SMTP server.
+ */
+export interface InboxMessageStore {
+  save(message: InboxMessage): Promise<void>;
+  get(id: string): Promise<InboxMessage | null>;
+  list(): Promise<InboxMessage[]>;
+  delete(id: string): Promise<boolean>;
+}
+
+export class MemoryInboxMessageStore implements InboxMessageStore {
+  private messages: Map<string, InboxMessage> = new Map();
+
+  async save(message: InboxMessage): Promise<void> {
+    this.messages.set(message.id, message);
+  }
+
+  async get(id: string): Promise<InboxMessage | null> {
+    return this.messages.get(id) || null;
+  }
+
+  async list(): Promise<InboxMessage[]> {
+    return Array.from(this.messages.values());
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.messages.delete(id);
+  }
+}
+
+export class DiskInboxMessageStore implements InboxMessageStore {
+  private readonly directory: string;
+
+  constructor(directory?: string) {
+    this.directory = path.resolve(directory || process.env.SMTP_INBOX_DIR || 'data/inbox');
+  }
+
+  async save(message: InboxMessage): Promise<void> {
+    const { raw, ...meta } = message;
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await fs.promises.writeFile(this.filePath(message.id, 'eml'), raw);
+    await fs.promises.writeFile(this.filePath(message.id, 'json'), JSON.stringify(meta, null, 2), 'utf-8');
+  }
+
+  async get(id: string): Promise<InboxMessage | null> {
+    if (!/^[\w-]+$/.test(id)) return null;
+
+    try {
+      const meta = JSON.parse(await fs.promises.readFile(this.filePath(id, 'json'), 'utf-8'));
+      const raw = await fs.promises.readFile(this.filePath(id, 'eml'));
+      return { ...meta, raw };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async list(): Promise<InboxMessage[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const messages: InboxMessage[] = [];
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      const message = await this.get(path.basename(file, '.json'));
+      if (message) messages.push(message);
+    }
+    return messages;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!/^[\w-]+$/.test(id)) return false;
+
+    try {
+      await fs.promises.unlink(this.filePath(id, 'json'));
+      await fs.promises.rm(this.filePath(id, 'eml'), { force: true });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  private filePath(id: string, extension: 'eml' | 'json'): string {
+    return path.join(this.directory, `${id}.${extension}`);
+  }
+}
@@ -0,0 +1,33 @@
+import { EmailData, EmailListQuery, EmailListResponse, OutgoingEmail, ParsedEmailMessage } from '@/types';
+import { MailHogService } from './MailHogService';
+import { SmtpInboxService } from './SmtpInboxService';
+
+/**
+ * Common interface for the inboxes the backend can read emails from. MailHog
+ * is polled over its HTTP API; the embedded SMTP receiver pushes new
+ * messages to `onMessage` listeners as they arrive.
+ */
+export interface InboxProvider {
+  readonly name: string;
+  readonly supportsPush: boolean;
+  start(): Promise<void>;
+  stop(): Promise<void>;
+  checkForEmails(): Promise<EmailData>;
+  getEmailData(id: string): Promise<EmailData | null>;
+  listEmails(query: EmailListQuery): Promise<EmailListResponse>;
+  getEmail(id: string): Promise<ParsedEmailMessage | null>;
+  deleteEmail(id: string): Promise<boolean>;
+  sendEmail(email: OutgoingEmail): Promise<void>;
+  onMessage(listener: (email: EmailData) => void): void;
+}
+
+let sharedInbox: InboxProvider | null = null;
+
+export function getInbox(): InboxProvider {
+  if (!sharedInbox) {
+    const backend = (process.env.INBOX_BACKEND || 'mailhog').toLowerCase();
+
+    sharedInbox = backend === 'smtp' ? new SmtpInboxService() : new MailHogService();
+  }
+  return sharedInbox;
+}
@@ -1,8 +1,17 @@
 import axios from 'axios';
-import { EmailData } from '@/types';
+import { EmailData, EmailListQuery, EmailListResponse, EmailSummary, OutgoingEmail, ParsedEmailMessage, ParsedMimeMessage } from '@/types';
+import { InboxProvider } from './InboxProvider';
+import { MimeParser } from './MimeParser';
+
+const MAX_SEARCH_RESULTS = 1000;
+
+export class MailHogService implements InboxProvider {
+  readonly name = 'mailhog';
+  readonly supportsPush = false;
 
-export class MailHogService {
   private readonly apiUrl: string;
+  private readonly v1ApiUrl: string;
+  private mimeParser: MimeParser;
 
   constructor() {
     console.log('MailHog Config:', {
@@ -11,8 +20,17 @@ export class MailHogService {
       smtpPort: process.env.MAILHOG_SMTP_PORT
     });
     this.apiUrl = `http://${process.env.MAILHOG_HOST}:${process.env.MAILHOG_WEB_PORT}/api/v2`;
+    this.v1ApiUrl = `http://${process.env.MAILHOG_HOST}:${process.env.MAILHOG_WEB_PORT}/api/v1`;
+    this.mimeParser = new MimeParser();
   }
 
+  // MailHog runs as a separate service and is polled, so there is nothing to start or subscribe to
+  async start(): Promise<void> {}
+
+  async stop(): Promise<void> {}
+
+  onMessage(): void {}
+
   async checkForEmails(): Promise<EmailData> {
     try {
       const response = await axios.get(`${this.apiUrl}/messages`);
@@ -22,75 +40,161 @@ export class MailHogService {
         return { hasNewEmail: false };
       }
       
-      const latestEmail = messages[0];
-      
-      let htmlContent = '';
-      
-      if (latestEmail.MIME && latestEmail.MIME.Parts) {
-        const htmlPart = latestEmail.MIME.Parts.find((part: any) => {
-          const contentType = part.Headers && part.Headers['Content-Type'] ? part.Headers['Content-Type'][0] : '';
-          return contentType.includes('text/html');
+      return this.toEmailData(messages[0]);
+    } catch (error) {
+      throw new Error(`Failed to fetch emails: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getEmailData(id: string): Promise<EmailData | null> {
+    const message = await this.fetchMessage(id);
+    return message ? this.toEmailData(message) : null;
+  }
+
+  async listEmails(query: EmailListQuery): Promise<EmailListResponse> {
+    try {
+      const filters = [
+        query.from && { kind: 'from', query: query.from },
+        query.to && { kind: 'to', query: query.to },
+        query.subject && { kind: 'containing', query: query.subject }
+      ].filter(Boolean) as { kind: string; query: string }[];
+
+      if (filters.length === 0) {
+        const response = await axios.get(`${this.apiUrl}/messages`, {
+          params: { start: query.start, limit: query.limit }
         });
-        
-        if (htmlPart) {
-          htmlContent = htmlPart.Body || '';
-        }
-      }
-      
-      if (!htmlContent && latestEmail.Body) {
-        htmlContent = latestEmail.Body;
+        return this.toListResponse(response.data, query.start);
       }
-      
-      if (!htmlContent && latestEmail.Content && latestEmail.Content.Body) {
-        htmlContent = latestEmail.Content.Body;
+
+      // MailHog searches one field at a time, so a subject search or several
+      // filters are narrowed down locally and paginated here
+      const [primary] = filters;
+      const needsLocalFiltering = filters.length > 1 || primary.kind === 'containing';
+      const response = await axios.get(`${this.apiUrl}/search`, {
+        params: needsLocalFiltering
+          ? { kind: primary.kind, query: primary.query, start: 0, limit: MAX_SEARCH_RESULTS }
+          : { kind: primary.kind, query: primary.query, start: query.start, limit: query.limit }
+      });
+
+      if (!needsLocalFiltering) {
+        return this.toListResponse(response.data, query.start);
       }
-      
-      htmlContent = htmlContent
-        .replace(/\\r\\n/g, '\n')
-        .replace(/\\n/g, '\n')
-        .replace(/\\"/g, '"')
-        .replace(/\\t/g, '\t');
-      
-      if (!htmlContent || htmlContent.trim().length === 0) {
-        let textContent = '';
-        if (latestEmail.MIME && latestEmail.MIME.Parts) {
-          const textPart = latestEmail.MIME.Parts.find((part: any) => {
-            const contentType = part.Headers && part.Headers['Content-Type'] ? part.Headers['Content-Type'][0] : '';
-            return contentType.includes('text/plain');
-          });
-          if (textPart) {
-            textContent = textPart.Body || '';
-          }
-        }
-        
-        if (!textContent && latestEmail.Content && latestEmail.Content.Body) {
-          textContent = latestEmail.Content.Body;
-        }
-        
-        if (textContent) {
-          htmlContent = `<html><body><pre>${textContent.replace(/\n/g, '<br>')}</pre></body></html>`;
-        } else {
-          return {
-            hasNewEmail: true,
-            emailId: latestEmail.ID,
-            htmlContent: '',
-            subject: latestEmail.Content?.Headers?.Subject?.[0] || 'Test Email'
-          };
-        }
+
+      const matches = (response.data.items || [])
+        .map((message: any) => this.toSummary(message))
+        .filter((summary: EmailSummary) =>
+          (!query.from || summary.from.toLowerCase().includes(query.from.toLowerCase())) &&
+          (!query.to || summary.to.some(to => to.toLowerCase().includes(query.to!.toLowerCase()))) &&
+          (!query.subject || summary.subject.toLowerCase().includes(query.subject.toLowerCase()))
+        );
+      const items = matches.slice(query.start, query.start + query.limit);
+
+      return { total: matches.length, start: query.start, count: items.length, items };
+    } catch (error) {
+      throw new Error(`Failed to list emails: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getEmail(id: string): Promise<ParsedEmailMessage | null> {
+    const message = await this.fetchMessage(id);
+    if (!message) return null;
+
+    const parsed = this.parseMessage(message);
+
+    return {
+      ...this.toSummary(message),
+      headers: parsed.headers,
+      html: parsed.html,
+      text: parsed.text,
+      attachments: parsed.attachments.map(({ content, ...attachment }) => attachment)
+    };
+  }
+
+  async deleteEmail(id: string): Promise<boolean> {
+    try {
+      await axios.delete(`${this.v1ApiUrl}/messages/${encodeURIComponent(id)}`);
+      return true;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return false;
       }
-      
-      return {
-        hasNewEmail: true,
-        emailId: latestEmail.ID,
-        htmlContent,
-        subject: latestEmail.Content?.Headers?.Subject?.[0] || 'Test Email'
-      };
+      throw new Error(`Failed to delete email: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async fetchMessage(id: string): Promise<any | null> {
+    try {
+      const response = await axios.get(`${this.v1ApiUrl}/messages/${encodeURIComponent(id)}`);
+      return response.data;
     } catch (error) {
-      throw new Error(`Failed to fetch emails: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return null;
+      }
+      throw new Error(`Failed to fetch email: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
-  async sendEmail(to: string, subject: string, html: string): Promise<void> {
+  private toListResponse(data: any, start: number): EmailListResponse {
+    const items = (data.items || []).map((message: any) => this.toSummary(message));
+    return {
+      total: data.total || 0,
+      start,
+      count: items.length,
+      items
+    };
+  }
+
+  private toSummary(message: any): EmailSummary {
+    const address = (path: any) => path ? `${path.Mailbox}@${path.Domain}` : '';
+    const headers = message.Content?.Headers || {};
+    const decode = (value: string) => this.mimeParser.decodeHeader(value);
+
+    return {
+      id: message.ID,
+      from: headers.From ? decode(headers.From[0]) : address(message.From),
+      to: headers.To ? decode(headers.To[0]).split(',').map((to: string) => to.trim()) : (message.To || []).map(address),
+      subject: headers.Subject ? decode(headers.Subject[0]) : '',
+      date: message.Created || headers.Date?.[0] || '',
+      size: message.Content?.Size || message.Raw?.Data?.length || 0
+    };
+  }
+
+  private toEmailData(message: any): EmailData {
+    const { htmlContent, textContent } = this.extractContent(message);
+    const { from, to } = this.toSummary(message);
+
+    return {
+      hasNewEmail: true,
+      emailId: message.ID,
+      htmlContent,
+      textContent,
+      subject: message.Content?.Headers?.Subject ? this.mimeParser.decodeHeader(message.Content.Headers.Subject[0]) : 'Test Email',
+      from,
+      to
+    };
+  }
+
+  private parseMessage(message: any): ParsedMimeMessage {
+    let raw: string = message.Raw?.Data || '';
+
+    if (!raw && message.Content) {
+      const headers = Object.entries(message.Content.Headers || {})
+        .flatMap(([name, values]) => (values as string[]).map(value => `${name}: ${value}`))
+        .join('\r\n');
+      raw = `${headers}\r\n\r\n${message.Content.Body || ''}`;
+    }
+
+    return this.mimeParser.parse(raw);
+  }
+
+  private extractContent(message: any): { htmlContent: string; textContent: string } {
+    const parsed = this.parseMessage(message);
+    const htmlContent = this.mimeParser.htmlOrText(parsed.html, parsed.text);
+
+    return { htmlContent, textContent: parsed.text };
+  }
+
+  async sendEmail(email: OutgoingEmail): Promise<void> {
     try {
       const nodemailer = require('nodemailer');
       
@@ -103,9 +207,12 @@ export class MailHogService {
 
       await transporter.sendMail({
         from: process.env.DEFAULT_FROM_EMAIL,
-        to,
-        subject,
-        html
+        to: email.to,
+        cc: email.cc,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        attachments: email.attachments
       });
     } catch (error) {
       throw new Error(`Failed to send email: ${error instanceof Error ? error.message : 'Unknown error'}`);
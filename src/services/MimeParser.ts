@@ -0,0 +1,380 @@
+import { MimeAttachment, MimeFormFile, ParsedMimeMessage } from '@/types';
+
+interface MimePart {
+  headers: Record<string, string[]>;
+  headerNames: Record<string, string>;
+  contentType: string;
+  params: Record<string, string>;
+  disposition: string;
+  dispositionParams: Record<string, string>;
+  body: Buffer;
+  children: MimePart[];
+}
+
+const MAX_DEPTH = 20;
+
+export class MimeParser {
+  /**
+   * Parses a raw RFC 822 message. Nested multiparts are walked depth-first,
+   * transfer encodings and charsets are decoded and `cid:` references in the
+   * HTML part are replaced with data URIs of the matching inline parts.
+   */
+  parse(raw: string | Buffer): ParsedMimeMessage {
+    const buffer = typeof raw === 'string' ? Buffer.from(raw, 'utf-8') : raw;
+    const root = this.parsePart(buffer, 0);
+
+    let html = '';
+    let text = '';
+    const attachments: MimeAttachment[] = [];
+
+    this.walk(root, part => {
+      const isAttachment = part.disposition === 'attachment' ||
+        (!part.contentType.startsWith('text/') && !part.contentType.startsWith('multipart/'));
+
+      if (!isAttachment && part.contentType === 'text/html' && !html) {
+        html = this.decodeText(part);
+      } else if (!isAttachment && part.contentType === 'text/plain' && !text) {
+        text = this.decodeText(part);
+      } else if (isAttachment || (part.disposition === 'inline' && part.dispositionParams.filename)) {
+        attachments.push(this.toAttachment(part));
+      }
+    });
+
+    html = this.resolveContentIds(html, attachments);
+
+    const header = (name: string) => this.decodeEncodedWords(root.headers[name.toLowerCase()]?.[0] || '');
+    const addresses = (name: string) => header(name)
+      .split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/)
+      .map(address => address.trim())
+      .filter(Boolean);
+
+    return {
+      headers: this.displayHeaders(root),
+      messageId: header('Message-ID').replace(/^<|>$/g, '') || undefined,
+      from: header('From'),
+      to: addresses('To'),
+      cc: addresses('Cc'),
+      subject: header('Subject'),
+      date: header('Date'),
+      html,
+      text,
+      attachments
+    };
+  }
+
+  /**
+   * Decodes RFC 2047 encoded words such as `=?UTF-8?B?...?=` in a header value.
+   */
+  decodeHeader(value: string): string {
+    return this.decodeEncodedWords(value);
+  }
+
+  /**
+   * HTML to scan for a message: its HTML part, or the text part escaped into
+   * a `<pre>` when the message has no HTML.
+   */
+  htmlOrText(html: string, text: string): string {
+    if (html.trim() || !text.trim()) return html;
+
+    const escaped = text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+    return `<html><body><pre>${escaped.replace(/\r?\n/g, '<br>')}</pre></body></html>`;
+  }
+
+  /**
+   * Reads the fields of a multipart/form-data body, as posted by inbound
+   * parse webhooks. File fields are skipped.
+   */
+  parseFormData(body: Buffer, boundary: string): Record<string, string> {
+    const fields: Record<string, string> = {};
+
+    this.splitMultipart(body, boundary).forEach(buffer => {
+      const part = this.parsePart(buffer, MAX_DEPTH);
+      if (part.disposition !== 'form-data' || !part.dispositionParams.name || part.dispositionParams.filename) return;
+
+      fields[part.dispositionParams.name] = this.decodeText(part);
+    });
+
+    return fields;
+  }
+
+  /**
+   * Reads the file fields of a multipart/form-data body, as sent by browser
+   * uploads.
+   */
+  parseFormFiles(body: Buffer, boundary: string): MimeFormFile[] {
+    return this.splitMultipart(body, boundary)
+      .map(buffer => this.parsePart(buffer, MAX_DEPTH))
+      .filter(part => part.disposition === 'form-data' && part.dispositionParams.filename !== undefined)
+      .map(part => ({
+        field: part.dispositionParams.name || '',
+        filename: part.dispositionParams.filename,
+        contentType: part.contentType,
+        content: this.decodeBody(part)
+      }));
+  }
+
+  private parsePart(buffer: Buffer, depth: number): MimePart {
+    const { headerText, body } = this.splitHeaders(buffer);
+    const { headers, headerNames } = this.parseHeaders(headerText);
+
+    const [contentType, params] = this.parseHeaderValue(headers['content-type']?.[0] || 'text/plain');
+    const [disposition, dispositionParams] = this.parseHeaderValue(headers['content-disposition']?.[0] || '');
+
+    const part: MimePart = {
+      headers,
+      headerNames,
+      contentType,
+      params,
+      disposition,
+      dispositionParams,
+      body,
+      children: []
+    };
+
+    if (contentType.startsWith('multipart/') && params.boundary && depth < MAX_DEPTH) {
+      part.children = this.splitMultipart(body, params.boundary).map(child => this.parsePart(child, depth + 1));
+    }
+
+    return part;
+  }
+
+  private splitHeaders(buffer: Buffer): { headerText: string; body: Buffer } {
+    // A part may start with the blank line directly, meaning it has no headers
+    if (buffer[0] === 0x0a) return { headerText: '', body: buffer.subarray(1) };
+    if (buffer[0] === 0x0d && buffer[1] === 0x0a) return { headerText: '', body: buffer.subarray(2) };
+
+    const crlf = buffer.indexOf('\r\n\r\n');
+    const lf = buffer.indexOf('\n\n');
+
+    let index: number;
+    let separatorLength: number;
+    if (crlf !== -1 && (lf === -1 || crlf < lf)) {
+      index = crlf;
+      separatorLength = 4;
+    } else if (lf !== -1) {
+      index = lf;
+      separatorLength = 2;
+    } else {
+      return { headerText: buffer.toString('utf-8'), body: Buffer.alloc(0) };
+    }
+
+    return {
+      headerText: buffer.subarray(0, index).toString('utf-8'),
+      body: buffer.subarray(index + separatorLength)
+    };
+  }
+
+  private parseHeaders(headerText: string): { headers: Record<string, string[]>; headerNames: Record<string, string> } {
+    const headers: Record<string, string[]> = {};
+    const headerNames: Record<string, string> = {};
+    const unfolded = headerText.replace(/\r?\n[ \t]+/g, ' ');
+
+    unfolded.split(/\r?\n/).forEach(line => {
+      const separator = line.indexOf(':');
+      if (separator <= 0) return;
+
+      const name = line.substring(0, separator).trim();
+      const value = line.substring(separator + 1).trim();
+      const key = name.toLowerCase();
+      (headers[key] = headers[key] || []).push(value);
+      headerNames[key] = headerNames[key] || name;
+    });
+
+    return { headers, headerNames };
+  }
+
+  private displayHeaders(part: MimePart): Record<string, string[]> {
+    const display: Record<string, string[]> = {};
+
+    Object.keys(part.headers).forEach(key => {
+      display[part.headerNames[key] || key] = part.headers[key].map(value => this.decodeEncodedWords(value));
+    });
+
+    return display;
+  }
+
+  private parseHeaderValue(value: string): [string, Record<string, string>] {
+    const [main, ...rest] = value.split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+    const params: Record<string, string> = {};
+    const extended: Record<string, { index: number; value: string }[]> = {};
+
+    rest.forEach(param => {
+      const separator = param.indexOf('=');
+      if (separator === -1) return;
+
+      let name = param.substring(0, separator).trim().toLowerCase();
+      let paramValue = param.substring(separator + 1).trim().replace(/^"(.*)"$/, '$1');
+
+      // RFC 2231 parameter continuations and charset encoding, e.g. filename*0*=utf-8''...
+      const continuation = name.match(/^([^*]+)\*(\d+)?(\*)?$/);
+      if (continuation) {
+        const [, baseName, index, encoded] = continuation;
+        let charset: string | undefined;
+        if (encoded || (!index && name.endsWith('*'))) {
+          const charsetMatch = paramValue.match(/^([^']*)'[^']*'(.*)$/);
+          if (charsetMatch) {
+            charset = charsetMatch[1] || undefined;
+            paramValue = charsetMatch[2];
+          }
+          paramValue = this.decodeCharset(this.decodePercent(paramValue), charset || 'utf-8');
+        }
+        (extended[baseName] = extended[baseName] || []).push({ index: Number(index || 0), value: paramValue });
+        return;
+      }
+
+      name = name.replace(/\*$/, '');
+      params[name] = this.decodeEncodedWords(paramValue);
+    });
+
+    Object.keys(extended).forEach(name => {
+      params[name] = extended[name]
+        .sort((a, b) => a.index - b.index)
+        .map(segment => segment.value)
+        .join('');
+    });
+
+    return [main.trim().toLowerCase(), params];
+  }
+
+  private splitMultipart(body: Buffer, boundary: string): Buffer[] {
+    const text = body.toString('latin1');
+    const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // A delimiter is the boundary alone on its line, so a nested boundary that
+    // merely starts with this one does not split the body
+    const delimiter = new RegExp(`(?:^|\\r?\\n)--${escaped}(--)?[ \\t]*(?=\\r?\\n|$)`, 'g');
+    const parts: Buffer[] = [];
+
+    let contentStart = -1;
+    for (const match of text.matchAll(delimiter)) {
+      if (contentStart !== -1) {
+        parts.push(Buffer.from(text.substring(contentStart, match.index), 'latin1'));
+      }
+
+      // The closing delimiter ends the multipart
+      if (match[1]) return parts;
+
+      const lineEnd = text.indexOf('\n', match.index! + match[0].length);
+      if (lineEnd === -1) return parts;
+      contentStart = lineEnd + 1;
+    }
+
+    // An unterminated multipart runs to the end of the body
+    if (contentStart !== -1) {
+      parts.push(Buffer.from(text.substring(contentStart), 'latin1'));
+    }
+
+    return parts;
+  }
+
+  private walk(part: MimePart, visit: (part: MimePart) => void): void {
+    if (part.children.length > 0) {
+      part.children.forEach(child => this.walk(child, visit));
+      return;
+    }
+    visit(part);
+  }
+
+  private decodeBody(part: MimePart): Buffer {
+    const encoding = (part.headers['content-transfer-encoding']?.[0] || '7bit').toLowerCase().trim();
+
+    switch (encoding) {
+      case 'base64':
+        return Buffer.from(part.body.toString('latin1').replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+      case 'quoted-printable':
+        return this.decodeQuotedPrintable(part.body.toString('latin1'));
+      default:
+        return part.body;
+    }
+  }
+
+  private decodeText(part: MimePart): string {
+    return this.decodeCharset(this.decodeBody(part), part.params.charset || 'utf-8');
+  }
+
+  private decodeQuotedPrintable(input: string): Buffer {
+    const bytes: number[] = [];
+    const text = input.replace(/=\r?\n/g, '');
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (char === '=' && /^[0-9A-Fa-f]{2}$/.test(text.substr(i + 1, 2))) {
+        bytes.push(parseInt(text.substr(i + 1, 2), 16));
+        i += 2;
+      } else {
+        bytes.push(text.charCodeAt(i) & 0xff);
+      }
+    }
+
+    return Buffer.from(bytes);
+  }
+
+  private decodePercent(input: string): Buffer {
+    const bytes: number[] = [];
+    for (let i = 0; i < input.length; i++) {
+      if (input[i] === '%' && /^[0-9A-Fa-f]{2}$/.test(input.substr(i + 1, 2))) {
+        bytes.push(parseInt(input.substr(i + 1, 2), 16));
+        i += 2;
+      } else {
+        bytes.push(input.charCodeAt(i) & 0xff);
+      }
+    }
+    return Buffer.from(bytes);
+  }
+
+  private decodeCharset(buffer: Buffer, charset: string): string {
+    const normalized = charset.toLowerCase().trim().replace(/^"(.*)"$/, '$1');
+    const label = normalized === 'us-ascii' || normalized === 'ascii' ? 'utf-8' : normalized;
+
+    try {
+      return new TextDecoder(label).decode(buffer);
+    } catch (error) {
+      // Unknown charset labels fall back to UTF-8
+      return new TextDecoder('utf-8').decode(buffer);
+    }
+  }
+
+  private decodeEncodedWords(value: string): string {
+    return value
+      .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?[^?]+\?[BbQq]\?[^?]*\?=)/g, '$1')
+      .replace(/=\?([^?*]+)(?:\*[^?]*)?\?([BbQq])\?([^?]*)\?=/g, (_, charset: string, encoding: string, encoded: string) => {
+        const bytes = encoding.toUpperCase() === 'B'
+          ? Buffer.from(encoded, 'base64')
+          : this.decodeQuotedPrintable(encoded.replace(/_/g, ' '));
+        return this.decodeCharset(bytes, charset);
+      });
+  }
+
+  private toAttachment(part: MimePart): MimeAttachment {
+    const content = this.decodeBody(part);
+    const contentId = part.headers['content-id']?.[0]?.trim().replace(/^<|>$/g, '');
+
+    return {
+      filename: part.dispositionParams.filename || part.params.name || (contentId ? contentId : 'attachment'),
+      contentType: part.contentType,
+      size: content.length,
+      contentId: contentId || undefined,
+      inline: part.disposition !== 'attachment' && !!contentId,
+      content
+    };
+  }
+
+  private resolveContentIds(html: string, attachments: MimeAttachment[]): string {
+    if (!html) return html;
+
+    return html.replace(/cid:([^"'\s)>]+)/gi, (match, contentId: string) => {
+      let id = contentId;
+      try {
+        id = decodeURIComponent(contentId);
+      } catch (error) {
+        // A literal "%" is not an escape, e.g. cid:50%off
+      }
+      const attachment = attachments.find(a => a.contentId === id);
+      return attachment
+        ? `data:${attachment.contentType};base64,${attachment.content.toString('base64')}`
+        : match;
+    });
+  }
+}
@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Remembers which inbox messages the email listener has already scanned, so
+ * nothing is scanned twice and nothing is missed across restarts.
+ */
+export interface ProcessedEmailStore {
+  has(id: string): Promise<boolean>;
+  add(ids: string[]): Promise<void>;
+  /** False until the first id was ever stored, i.e. on a fresh install. */
+  isInitialized(): Promise<boolean>;
+}
+
+export class JsonFileProcessedEmailStore implements ProcessedEmailStore {
+  private readonly filePath: string;
+  private readonly maxIds: number;
+  private ids: Set<string> | null = null;
+  private initialized: boolean = false;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(filePath?: string, maxIds?: number) {
+    this.filePath = path.resolve(filePath || process.env.LISTENER_STATE_PATH || 'data/listener/processed.json');
+    this.maxIds = maxIds || Number(process.env.LISTENER_MAX_PROCESSED_IDS) || 10000;
+  }
+
+  async has(id: string): Promise<boolean> {
+    const ids = await this.load();
+    return ids.has(id);
+  }
+
+  async add(newIds: string[]): Promise<void> {
+    const ids = await this.load();
+    newIds.forEach(id => {
+      // Re-inserting moves the id to the end, so the oldest ids are trimmed first
+      ids.delete(id);
+      ids.add(id);
+    });
+
+    for (const id of ids) {
+      if (ids.size <= this.maxIds) break;
+      ids.delete(id);
+    }
+
+    this.initialized = true;
+    this.writeChain = this.writeChain
+      .then(() => this.write(Array.from(ids)))
+      .catch(error => console.error('Failed to persist processed email ids:', error));
+    await this.writeChain;
+  }
+
+  async isInitialized(): Promise<boolean> {
+    await this.load();
+    return this.initialized;
+  }
+
+  private async load(): Promise<Set<string>> {
+    if (this.ids) return this.ids;
+
+    try {
+      const data = JSON.parse(await fs.promises.readFile(this.filePath, 'utf-8'));
+      this.ids = new Set(Array.isArray(data.ids) ? data.ids.filter((id: unknown) => typeof id === 'string') : []);
+      this.initialized = true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Failed to read processed email ids, starting empty:', error);
+      }
+      this.ids = new Set();
+    }
+
+    return this.ids;
+  }
+
+  private async write(ids: string[]): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify({ ids, updatedAt: new Date().toISOString() }), 'utf-8');
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,405 @@
+import path from 'path';
+import { pathToFileURL } from 'url';
+import {
+  AccessibilityScore,
+  AccessibilityViolation,
+  RenderedReport,
+  ReportFormat,
+  ReportTemplate,
+  ScanHistoryRecord,
+  ScanResult
+} from '@/types';
+import { BrowserPool, getBrowserPool } from './BrowserPool';
+import { ScanDiffService } from './ScanDiffService';
+import { ScoringService, getScoringService } from './ScoringService';
+import { RenderedEmail, renderReport } from './ReportTemplates';
+
+export const REPORT_FORMATS: ReportFormat[] = ['html', 'pdf', 'json', 'csv', 'sarif', 'junit'];
+
+/** A scan for a SARIF log, with the HTML its results are located in. */
+export interface SarifScan {
+  record: ScanHistoryRecord;
+  html: string | null;
+  /** File the HTML was read from, when `record.file` is only a label. */
+  file?: string;
+}
+
+/** Base of artifact paths, the working directory of the scan. */
+const SARIF_SRCROOT = '%SRCROOT%';
+
+const SARIF_LEVELS: Record<string, 'error' | 'warning' | 'note'> = {
+  critical: 'error',
+  serious: 'error',
+  moderate: 'warning',
+  minor: 'note'
+};
+
+export class ReportService {
+  private browserPool: BrowserPool;
+  private scanDiffService: ScanDiffService;
+  private scoringService: ScoringService;
+
+  constructor(browserPool: BrowserPool = getBrowserPool()) {
+    this.browserPool = browserPool;
+    this.scanDiffService = new ScanDiffService();
+    this.scoringService = getScoringService();
+  }
+
+  /**
+   * Renders a stored scan in the requested format. `template` applies to the
+   * HTML and PDF formats.
+   */
+  async render(
+    format: ReportFormat,
+    record: ScanHistoryRecord,
+    originalHtml: string | null,
+    template: ReportTemplate = 'detailed'
+  ): Promise<RenderedReport> {
+    const score = this.scoringService.score(record.result);
+    const baseName = `accessibility-report-${record.id}`;
+    const renderHtml = () => this.renderEmail(record.result, originalHtml || '', {
+      timestamp: record.createdAt,
+      score,
+      template
+    }).html;
+
+    switch (format) {
+      case 'html':
+        return {
+          contentType: 'text/html; charset=utf-8',
+          fileName: `${baseName}.html`,
+          body: renderHtml()
+        };
+      case 'pdf':
+        return {
+          contentType: 'application/pdf',
+          fileName: `${baseName}.pdf`,
+          body: await this.renderPdf(renderHtml())
+        };
+      case 'json':
+        return {
+          contentType: 'application/json; charset=utf-8',
+          fileName: `${baseName}.json`,
+          body: JSON.stringify(this.renderJson(record, score), null, 2)
+        };
+      case 'csv':
+        return {
+          contentType: 'text/csv; charset=utf-8',
+          fileName: `${baseName}.csv`,
+          body: this.renderCsv(record.result)
+        };
+      case 'sarif':
+        return {
+          contentType: 'application/sarif+json; charset=utf-8',
+          fileName: `${baseName}.sarif`,
+          body: this.renderSarifLog([{ record, html: originalHtml }])
+        };
+      case 'junit':
+        return {
+          contentType: 'application/xml; charset=utf-8',
+          fileName: `${baseName}.xml`,
+          body: this.renderJUnit(record)
+        };
+      default:
+        throw new Error(`Unsupported report format: ${format}`);
+    }
+  }
+
+  /**
+   * The report email, also used for HTML and PDF exports.
+   */
+  renderEmail(
+    results: ScanResult,
+    originalHtml: string,
+    options: { timestamp: string; score?: AccessibilityScore; template?: ReportTemplate; images?: string[] }
+  ): RenderedEmail {
+    return renderReport(options.template || 'detailed', {
+      results,
+      originalHtml,
+      timestamp: options.timestamp,
+      score: options.score,
+      images: options.images
+    });
+  }
+
+  private async renderPdf(html: string): Promise<Buffer> {
+    // The report embeds scanned email HTML, which must not run scripts
+    return this.browserPool.withContext(async (context) => {
+      const page = await context.newPage();
+      await page.setContent(html, { waitUntil: 'load' });
+      return page.pdf({
+        format: 'A4',
+        printBackground: true,
+        margin: { top: '16mm', bottom: '16mm', left: '12mm', right: '12mm' }
+      });
+    }, { javaScriptEnabled: false });
+  }
+
+  private renderJson(record: ScanHistoryRecord, score?: AccessibilityScore) {
+    return {
+      id: record.id,
+      createdAt: record.createdAt,
+      source: record.source,
+      emailId: record.emailId,
+      subject: record.subject,
+      durationMs: record.durationMs,
+      score,
+      summary: {
+        violations: record.result.violations?.length || 0,
+        passes: record.result.passes?.length || 0,
+        incomplete: record.result.incomplete?.length || 0,
+        inapplicable: record.result.inapplicable?.length || 0
+      },
+      result: record.result
+    };
+  }
+
+  /**
+   * One row per affected node of every violation.
+   */
+  private renderCsv(result: ScanResult): string {
+    const header = ['rule_id', 'impact', 'description', 'help', 'help_url', 'target', 'html', 'failure_summary', 'modes'];
+    const rows = (result.violations || []).flatMap(violation => (violation.nodes || []).map(node => [
+      violation.id,
+      violation.impact,
+      violation.description,
+      violation.help,
+      violation.helpUrl,
+      node.target?.join(', ') || '',
+      node.html,
+      node.failureSummary || '',
+      (node.modes || violation.modes || []).join(' ')
+    ]));
+
+    return [header, ...rows].map(row => row.map(value => this.csvField(value)).join(',')).join('\r\n') + '\r\n';
+  }
+
+  private csvField(value: string | undefined | null): string {
+    let text = value == null ? '' : String(value);
+    // Keep spreadsheet apps from evaluating cell content as a formula
+    if (/^[=+\-@\t\r]/.test(text)) {
+      text = `'${text}`;
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }
+
+  /**
+   * SARIF log for several scans in a single run, one artifact per scan, e.g.
+   * every file of a CLI scan.
+   */
+  renderSarifLog(scans: SarifScan[]): string {
+    return JSON.stringify(this.renderSarif(scans), null, 2);
+  }
+
+  /**
+   * SARIF 2.1.0 log with one result per affected node. Results carry the same
+   * fingerprints as scan diffs, so code-scanning tools can track them across runs.
+   */
+  private renderSarif(sarifScans: SarifScan[]) {
+    const records = sarifScans.map(scan => scan.record);
+    const artifactLocations = sarifScans.map(scan => this.artifactLocation(scan.record, scan.file));
+    const rules: AccessibilityViolation[] = [];
+    const ruleIndexes = new Map<string, number>();
+    records.forEach(record => (record.result.violations || []).forEach(violation => {
+      if (!ruleIndexes.has(violation.id)) {
+        ruleIndexes.set(violation.id, rules.length);
+        rules.push(violation);
+      }
+    }));
+
+    const scans = records.map(record => {
+      const score = this.scoringService.score(record.result);
+      return { scanId: record.id, file: record.file, subject: record.subject, score: score?.score, grade: score?.grade };
+    });
+
+    return {
+      $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+      version: '2.1.0',
+      runs: [{
+        tool: {
+          driver: {
+            name: 'AccessTime',
+            version: process.env.npm_package_version || '1.0.0',
+            rules: rules.map(violation => ({
+              id: violation.id,
+              shortDescription: { text: violation.help },
+              fullDescription: { text: violation.description },
+              helpUri: violation.helpUrl,
+              defaultConfiguration: { level: SARIF_LEVELS[violation.impact] || 'warning' },
+              properties: { tags: violation.tags, impact: violation.impact }
+            }))
+          }
+        },
+        invocations: [{
+          executionSuccessful: records.every(record => !record.result.error),
+          startTimeUtc: records[0]?.createdAt,
+          toolExecutionNotifications: records
+            .map((record, artifactIndex) => ({ record, artifactIndex }))
+            .filter(({ record }) => record.result.error)
+            .map(({ record, artifactIndex }) => ({
+              level: 'error',
+              message: { text: record.result.error },
+              locations: [{ physicalLocation: { artifactLocation: { ...artifactLocations[artifactIndex], index: artifactIndex } } }]
+            }))
+        }],
+        originalUriBaseIds: {
+          [SARIF_SRCROOT]: { uri: pathToFileURL(process.cwd() + path.sep).href }
+        },
+        artifacts: artifactLocations.map(location => ({ location, mimeType: 'text/html' })),
+        results: sarifScans.flatMap(({ record, html }, artifactIndex) => {
+          const occurrences = new Map<string, number>();
+
+          return (record.result.violations || []).flatMap(violation => {
+            // Nodes of a rule with identical markup are located in source order
+            const snippetOccurrences = new Map<string, number>();
+
+            return (violation.nodes || []).map(node => {
+              const key = this.scanDiffService.fingerprint(violation.id, node);
+              const occurrence = occurrences.get(key) || 0;
+              occurrences.set(key, occurrence + 1);
+              const snippetOccurrence = snippetOccurrences.get(node.html) || 0;
+              snippetOccurrences.set(node.html, snippetOccurrence + 1);
+
+              return {
+                ruleId: violation.id,
+                ruleIndex: ruleIndexes.get(violation.id),
+                level: SARIF_LEVELS[violation.impact] || 'warning',
+                message: { text: node.failureSummary || violation.help },
+                locations: [{
+                  physicalLocation: {
+                    artifactLocation: { ...artifactLocations[artifactIndex], index: artifactIndex },
+                    region: this.sourceRegion(html, node.html, snippetOccurrence)
+                  },
+                  logicalLocations: [{ fullyQualifiedName: node.target?.join(' ') || '', kind: 'element' }]
+                }],
+                partialFingerprints: {
+                  accessTimeViolation: this.scanDiffService.fingerprint(violation.id, node, occurrence)
+                }
+              };
+            });
+          });
+        }),
+        properties: scans.length === 1 ? scans[0] : { scans }
+      }]
+    };
+  }
+
+  /**
+   * Region of a node in the scanned HTML. axe reports the node as the browser
+   * serializes it, which may differ from the source, so the opening tag and
+   * then a tag with the same name and attribute values are tried after the
+   * exact markup. The region keeps only the snippet when nothing matches.
+   */
+  private sourceRegion(html: string | null, snippet: string, occurrence: number) {
+    const offset = html ? this.findInSource(html, snippet, occurrence) : -1;
+    if (offset === -1) {
+      return { snippet: { text: snippet } };
+    }
+
+    const lines = html!.slice(0, offset).split('\n');
+    return {
+      startLine: lines.length,
+      startColumn: lines[lines.length - 1].length + 1,
+      snippet: { text: snippet }
+    };
+  }
+
+  private findInSource(html: string, snippet: string, occurrence: number): number {
+    const openingTag = snippet.match(/^<[^>]*>/)?.[0];
+    const tagName = snippet.match(/^<([a-zA-Z][\w-]*)/)?.[1];
+    const decode = (value: string) => value.replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+    const attributeValues = openingTag
+      ? Array.from(openingTag.matchAll(/[\w:-]+="([^"]*)"/g), match => decode(match[1])).filter(Boolean)
+      : [];
+
+    const positionsOf = (text: string) => {
+      const positions: number[] = [];
+      for (let index = html.indexOf(text); index !== -1; index = html.indexOf(text, index + 1)) {
+        positions.push(index);
+      }
+      return positions;
+    };
+    const similarTags = () => tagName && attributeValues.length > 0
+      ? Array.from(html.matchAll(new RegExp(`<${tagName}\\b[^>]*>`, 'gi')))
+        .filter(match => attributeValues.every(value => decode(match[0]).includes(value)))
+        .map(match => match.index!)
+      : [];
+
+    for (const positions of [
+      () => snippet ? positionsOf(snippet) : [],
+      () => openingTag ? positionsOf(openingTag) : [],
+      similarTags
+    ]) {
+      const found = positions();
+      if (found.length > 0) return found[Math.min(occurrence, found.length - 1)];
+    }
+
+    return -1;
+  }
+
+  /**
+   * Files are given relative to `%SRCROOT%`, so logs from different checkouts
+   * match. Scans without a file are named after their history id.
+   */
+  private artifactLocation(record: ScanHistoryRecord, file?: string): { uri: string; uriBaseId?: string } {
+    const source = file || record.file;
+    if (!source) return { uri: `scans/${record.id}.html` };
+
+    const relative = path.relative(process.cwd(), path.resolve(source));
+    // A file on another Windows drive has no relative path
+    if (path.isAbsolute(relative)) return { uri: pathToFileURL(source).href };
+
+    // SARIF URIs use forward slashes, also for Windows paths
+    return { uri: relative.split(path.sep).map(encodeURIComponent).join('/'), uriBaseId: SARIF_SRCROOT };
+  }
+
+  /**
+   * JUnit XML with one test case per rule: violations fail, incomplete checks
+   * are skipped for manual review and passes succeed.
+   */
+  private renderJUnit(record: ScanHistoryRecord): string {
+    const { violations = [], passes = [], incomplete = [] } = record.result;
+    const suiteName = `Accessibility scan ${record.id}${record.subject ? ` - ${record.subject}` : ''}`;
+    const seconds = (record.durationMs / 1000).toFixed(3);
+    const tests = violations.length + passes.length + incomplete.length + (record.result.error ? 1 : 0);
+
+    const cases = [
+      ...violations.map(violation => {
+        const details = (violation.nodes || [])
+          .map(node => `${node.target?.join(', ') || 'N/A'}\n${node.failureSummary || ''}`.trim())
+          .join('\n\n');
+        return `    <testcase classname="accessibility.${this.xmlEscape(violation.impact || 'unknown')}" name="${this.xmlEscape(violation.id)}">
+      <failure message="${this.xmlEscape(violation.help)}" type="${this.xmlEscape(violation.impact || 'unknown')}">${this.xmlEscape(`${violation.description}\n${violation.helpUrl}\n\n${details}`)}</failure>
+    </testcase>`;
+      }),
+      ...incomplete.map(check => `    <testcase classname="accessibility.incomplete" name="${this.xmlEscape(check.id)}">
+      <skipped message="Requires manual review"/>
+    </testcase>`),
+      ...passes.map(pass => `    <testcase classname="accessibility.passes" name="${this.xmlEscape(pass.id)}"/>`),
+      ...(record.result.error ? [`    <testcase classname="accessibility.scan" name="scan">
+      <error message="${this.xmlEscape(record.result.error)}"/>
+    </testcase>`] : [])
+    ];
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="AccessTime" tests="${tests}" failures="${violations.length}" errors="${record.result.error ? 1 : 0}" skipped="${incomplete.length}" time="${seconds}">`,
+      `  <testsuite name="${this.xmlEscape(suiteName)}" tests="${tests}" failures="${violations.length}" errors="${record.result.error ? 1 : 0}" skipped="${incomplete.length}" time="${seconds}" timestamp="${this.xmlEscape(record.createdAt)}">`,
+      ...cases,
+      '  </testsuite>',
+      '</testsuites>',
+      ''
+    ].join('\n');
+  }
+
+  private xmlEscape(value: string): string {
+    return String(value)
+      // Control characters are not allowed in XML 1.0
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;');
+  }
+}
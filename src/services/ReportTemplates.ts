@@ -0,0 +1,301 @@
+import { AccessibilityNode, AccessibilityScore, ReportTemplate, ScanDiff, ScanResult, ViolationDiffEntry } from '@/types';
+
+export interface ReportContext {
+  results: ScanResult;
+  originalHtml: string;
+  timestamp: string;
+  score?: AccessibilityScore;
+  /** Image sources (e.g. `cid:` links) indexed by `AccessibilityNode.screenshotIndex`. */
+  images?: string[];
+}
+
+export interface RenderedEmail {
+  html: string;
+  text: string;
+}
+
+interface ReportTemplateDefinition {
+  description: string;
+  render(context: ReportContext): RenderedEmail;
+}
+
+const FONT = 'font-family: Arial, Helvetica, sans-serif;';
+const TEXT_COLOR = '#1f2937';
+const MUTED_COLOR = '#4b5563';
+const ORIGINAL_HTML_EXCERPT = 500;
+
+// Badge colours keep at least 4.5:1 contrast with white text
+const IMPACT_COLORS: Record<string, string> = {
+  critical: '#991b1b',
+  serious: '#9a3412',
+  moderate: '#854d0e',
+  minor: '#374151'
+};
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Only http(s) links are kept, so a rule help URL cannot smuggle in
+ * `javascript:` or similar schemes.
+ */
+function safeUrl(url: string | undefined): string | null {
+  return url && /^https?:\/\//i.test(url) ? escapeHtml(url) : null;
+}
+
+/**
+ * Email-safe document shell: a centred 640px presentation table with inline
+ * styles only, which every major client renders.
+ */
+function layout(title: string, content: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #f3f4f6;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color: #f3f4f6;">
+<tr>
+<td align="center" style="padding: 24px 12px;">
+<main>
+<table role="presentation" width="640" cellpadding="0" cellspacing="0" border="0" style="width: 100%; max-width: 640px; background-color: #ffffff; ${FONT} color: ${TEXT_COLOR}; font-size: 16px; line-height: 24px;">
+${content}
+</table>
+</main>
+<footer>
+<p style="${FONT} font-size: 14px; line-height: 20px; color: ${MUTED_COLOR}; margin: 16px 0 0 0;">Generated by AccessTime Email Accessibility Scanner</p>
+</footer>
+</td>
+</tr>
+</table>
+</body>
+</html>
+`;
+}
+
+function headerRow(title: string, lines: string[]): string {
+  return `<tr>
+<td style="background-color: #1e3a8a; color: #ffffff; padding: 24px; ${FONT}">
+<h1 style="margin: 0 0 8px 0; font-size: 24px; line-height: 32px; color: #ffffff;">${escapeHtml(title)}</h1>
+${lines.map(line => `<p style="margin: 0; font-size: 16px; line-height: 24px; color: #ffffff;">${escapeHtml(line)}</p>`).join('\n')}
+</td>
+</tr>`;
+}
+
+function sectionRow(heading: string, content: string): string {
+  return `<tr>
+<td style="padding: 24px 24px 0 24px; ${FONT}">
+<h2 style="margin: 0 0 12px 0; font-size: 20px; line-height: 28px; color: ${TEXT_COLOR}; border-bottom: 2px solid #e5e7eb; padding-bottom: 4px;">${escapeHtml(heading)}</h2>
+${content}
+</td>
+</tr>`;
+}
+
+function spacerRow(): string {
+  return '<tr><td style="padding: 0 0 24px 0; font-size: 16px; line-height: 16px;">&nbsp;</td></tr>';
+}
+
+function impactBadge(impact: string | null | undefined): string {
+  const label = impact || 'unknown';
+  const color = IMPACT_COLORS[label] || IMPACT_COLORS.minor;
+  return `<span style="display: inline-block; background-color: ${color}; color: #ffffff; font-size: 14px; line-height: 20px; padding: 0 8px; border-radius: 4px;">${escapeHtml(label)}</span>`;
+}
+
+function helpLink(ruleId: string, helpUrl: string | undefined): string {
+  const url = safeUrl(helpUrl);
+  return url ? `<a href="${url}" style="color: #1d4ed8;">How to fix ${escapeHtml(ruleId)}</a>` : '';
+}
+
+function scoreLines(context: ReportContext): string[] {
+  const lines = [`Generated on ${context.timestamp}`];
+  if (context.results.profile) lines.push(`Email client profile: ${context.results.profile}`);
+  if (context.results.colorModes) lines.push(`Color modes: ${context.results.colorModes.join(', ')}`);
+  if (context.score) lines.push(`Score: ${context.score.score}/100 (Grade ${context.score.grade})`);
+  return lines;
+}
+
+function countsTable(results: ScanResult): string {
+  const counts: [string, number][] = [
+    ['Violations', results.violations?.length || 0],
+    ['Passes', results.passes?.length || 0],
+    ['Incomplete', results.incomplete?.length || 0],
+    ['Inapplicable', results.inapplicable?.length || 0]
+  ];
+  const cell = 'padding: 8px; border: 1px solid #d1d5db; font-size: 16px; line-height: 24px;';
+
+  return `<table cellpadding="0" cellspacing="0" border="0" width="100%" style="border-collapse: collapse; ${FONT}">
+<caption style="text-align: left; font-size: 16px; line-height: 24px; padding-bottom: 8px; color: ${MUTED_COLOR};">Result counts</caption>
+<tr>${counts.map(([label]) => `<th scope="col" style="${cell} background-color: #f9fafb; text-align: center;">${label}</th>`).join('')}</tr>
+<tr>${counts.map(([, count]) => `<td style="${cell} text-align: center; font-size: 20px; font-weight: bold;">${count}</td>`).join('')}</tr>
+</table>`;
+}
+
+function violationsTable(results: ScanResult): string {
+  const cell = 'padding: 8px; border: 1px solid #d1d5db; font-size: 16px; line-height: 24px; vertical-align: top;';
+
+  return `<table cellpadding="0" cellspacing="0" border="0" width="100%" style="border-collapse: collapse; ${FONT}">
+<caption style="text-align: left; font-size: 16px; line-height: 24px; padding-bottom: 8px; color: ${MUTED_COLOR};">Violations by rule</caption>
+<tr>
+<th scope="col" style="${cell} background-color: #f9fafb; text-align: left;">Rule</th>
+<th scope="col" style="${cell} background-color: #f9fafb; text-align: left;">Impact</th>
+<th scope="col" style="${cell} background-color: #f9fafb; text-align: right;">Elements</th>
+</tr>
+${results.violations.map(violation => `<tr>
+<td style="${cell}"><strong>${escapeHtml(violation.id)}</strong><br>${escapeHtml(violation.help)}<br>${helpLink(violation.id, violation.helpUrl)}</td>
+<td style="${cell}">${impactBadge(violation.impact)}</td>
+<td style="${cell} text-align: right;">${violation.nodes?.length || 0}</td>
+</tr>`).join('\n')}
+</table>`;
+}
+
+function codeBlock(value: string): string {
+  return `<pre style="margin: 8px 0; padding: 8px; background-color: #f3f4f6; color: ${TEXT_COLOR}; font-family: Menlo, Consolas, monospace; font-size: 14px; line-height: 20px; white-space: pre-wrap; word-break: break-all;">${escapeHtml(value)}</pre>`;
+}
+
+function nodeScreenshot(node: AccessibilityNode, images?: string[]): string {
+  const src = node.screenshotIndex !== undefined ? images?.[node.screenshotIndex] : undefined;
+  if (!src) return '';
+
+  return `<img src="${escapeHtml(src)}" alt="Screenshot of ${escapeHtml(node.target?.join(', ') || 'the element')} with the element outlined in red" width="560" style="display: block; width: 100%; max-width: 560px; height: auto; margin: 8px 0; border: 1px solid #d1d5db;">`;
+}
+
+function violationDetails(results: ScanResult, images?: string[]): string {
+  return results.violations.map(violation => `<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%" style="margin-bottom: 16px; border-left: 4px solid ${IMPACT_COLORS[violation.impact] || IMPACT_COLORS.minor}; background-color: #fef2f2;">
+<tr>
+<td style="padding: 12px; ${FONT} font-size: 16px; line-height: 24px;">
+<h3 style="margin: 0 0 4px 0; font-size: 18px; line-height: 26px;">${escapeHtml(violation.id)}</h3>
+<p style="margin: 0 0 8px 0;">${escapeHtml(violation.description)}</p>
+<p style="margin: 0 0 8px 0;">${impactBadge(violation.impact)}${violation.modes ? ` Modes: ${escapeHtml(violation.modes.join(', '))}` : ''}</p>
+${(violation.nodes || []).map(node => `<p style="margin: 8px 0 0 0;"><strong>Element:</strong> ${escapeHtml(node.target?.join(', ') || 'N/A')}</p>
+${nodeScreenshot(node, images)}
+${codeBlock(node.html)}
+${node.failureSummary ? `<p style="margin: 0;">${escapeHtml(node.failureSummary).replace(/\n/g, '<br>')}</p>` : ''}`).join('\n')}
+<p style="margin: 8px 0 0 0;">${helpLink(violation.id, violation.helpUrl)}</p>
+</td>
+</tr>
+</table>`).join('\n');
+}
+
+function ruleList(items: { id: string; description: string }[]): string {
+  return `<ul style="margin: 0; padding-left: 20px;">
+${items.map(item => `<li style="margin-bottom: 4px;"><strong>${escapeHtml(item.id)}</strong>${item.description ? ` - ${escapeHtml(item.description)}` : ''}</li>`).join('\n')}
+</ul>`;
+}
+
+function textReport(context: ReportContext, detailed: boolean): string {
+  const { results } = context;
+  const lines = ['Accessibility Scan Report', '', ...scoreLines(context), ''];
+
+  lines.push(
+    `Violations: ${results.violations?.length || 0}`,
+    `Passes: ${results.passes?.length || 0}`,
+    `Incomplete: ${results.incomplete?.length || 0}`,
+    `Inapplicable: ${results.inapplicable?.length || 0}`,
+    ''
+  );
+
+  (results.violations || []).forEach(violation => {
+    lines.push(`- ${violation.id} (${violation.impact}, ${violation.nodes?.length || 0} elements): ${violation.help}`);
+    if (detailed) {
+      (violation.nodes || []).forEach(node => {
+        lines.push(`    ${node.target?.join(', ') || 'N/A'}`);
+        if (node.failureSummary) lines.push(`    ${node.failureSummary.replace(/\n/g, '\n    ')}`);
+      });
+    }
+    if (violation.helpUrl) lines.push(`    ${violation.helpUrl}`);
+  });
+
+  return lines.join('\n');
+}
+
+export const REPORT_TEMPLATES: Record<ReportTemplate, ReportTemplateDefinition> = {
+  summary: {
+    description: 'Score, result counts and one line per violated rule',
+    render: (context) => ({
+      html: layout('Accessibility Scan Report', [
+        headerRow('Accessibility Scan Report', scoreLines(context)),
+        sectionRow('Summary', countsTable(context.results)),
+        context.results.violations?.length > 0 ? sectionRow('Violations', violationsTable(context.results)) : '',
+        spacerRow()
+      ].join('\n')),
+      text: textReport(context, false)
+    })
+  },
+  detailed: {
+    description: 'Summary plus every affected element, incomplete checks, passes and an excerpt of the scanned HTML',
+    render: (context) => {
+      const { results, originalHtml } = context;
+      const excerpt = originalHtml.length > ORIGINAL_HTML_EXCERPT
+        ? `${originalHtml.substring(0, ORIGINAL_HTML_EXCERPT)}...`
+        : originalHtml;
+
+      return {
+        html: layout('Accessibility Scan Report', [
+          headerRow('Accessibility Scan Report', scoreLines(context)),
+          sectionRow('Summary', countsTable(results)),
+          results.violations?.length > 0 ? sectionRow('Violations', violationDetails(results, context.images)) : '',
+          results.incomplete?.length > 0 ? sectionRow('Needs manual review', ruleList(results.incomplete)) : '',
+          results.passes?.length > 0 ? sectionRow('Passed checks', ruleList(results.passes)) : '',
+          excerpt ? sectionRow('Scanned HTML', codeBlock(excerpt)) : '',
+          spacerRow()
+        ].join('\n')),
+        text: textReport(context, true)
+      };
+    }
+  }
+};
+
+export const REPORT_TEMPLATE_NAMES = Object.keys(REPORT_TEMPLATES) as ReportTemplate[];
+
+export function renderReport(template: ReportTemplate, context: ReportContext): RenderedEmail {
+  return REPORT_TEMPLATES[template].render(context);
+}
+
+export function renderDiffReport(diff: ScanDiff, timestamp: string): RenderedEmail {
+  const entries = (items: ViolationDiffEntry[], background: string) => items.map(entry => `<table role="presentation" cellpadding="0" cellspacing="0" border="0" width="100%" style="margin-bottom: 12px; background-color: ${background};">
+<tr>
+<td style="padding: 12px; ${FONT} font-size: 16px; line-height: 24px;">
+<strong>${escapeHtml(entry.ruleId)}</strong> - ${escapeHtml(entry.help)}<br>
+${impactBadge(entry.impact)} Element: ${escapeHtml(entry.node.target?.join(', ') || 'N/A')}<br>
+${helpLink(entry.ruleId, entry.helpUrl)}
+</td>
+</tr>
+</table>`).join('\n');
+
+  const summary = `${diff.summary.new} new, ${diff.summary.fixed} fixed, ${diff.summary.unchanged} unchanged`;
+  const textSection = (title: string, items: ViolationDiffEntry[]) => items.length > 0
+    ? [`${title}:`, ...items.map(entry => `- ${entry.ruleId} (${entry.impact}) ${entry.node.target?.join(', ') || 'N/A'}`), '']
+    : [];
+
+  return {
+    html: layout('Accessibility Regression Report', [
+      headerRow('Accessibility Regression Report', [`Generated on ${timestamp}`, summary]),
+      diff.new.length > 0 ? sectionRow('New violations', entries(diff.new, '#fef2f2')) : '',
+      diff.fixed.length > 0 ? sectionRow('Fixed violations', entries(diff.fixed, '#ecfdf5')) : '',
+      diff.unchanged.length > 0 ? sectionRow('Unchanged violations', entries(diff.unchanged, '#f3f4f6')) : '',
+      spacerRow()
+    ].join('\n')),
+    text: [
+      'Accessibility Regression Report',
+      '',
+      `Generated on ${timestamp}`,
+      summary,
+      '',
+      ...textSection('New violations', diff.new),
+      ...textSection('Fixed violations', diff.fixed),
+      ...textSection('Unchanged violations', diff.unchanged)
+    ].join('\n')
+  };
+}
+
+export function listReportTemplates(): { name: ReportTemplate; description: string }[] {
+  return REPORT_TEMPLATE_NAMES.map(name => ({ name, description: REPORT_TEMPLATES[name].description }));
+}
@@ -1,64 +1,206 @@
-import { EmailSample } from '@/types';
+import { EmailSample, SampleInput, SampleQuery } from '@/types';
 import fs from 'fs';
 import path from 'path';
+import { getInbox } from './InboxProvider';
+
+const SAMPLE_ID = /^[a-z0-9][a-z0-9-]{0,63}$/;
+const SAMPLE_TAG = /^[a-z0-9][a-z0-9-]{0,49}$/;
+const MAX_SAMPLE_SIZE = 1024 * 1024;
+
+// Index writes from concurrent requests are applied one at a time
+let indexLock: Promise<unknown> = Promise.resolve();
 
 export class SampleService {
   private samplesPath: string;
+  private indexPath: string;
 
   constructor() {
-    this.samplesPath = path.join(__dirname, '../../tests/email-samples');
+    const samplesDir = process.env.SAMPLES_DIR || path.join(__dirname, '../../tests');
+    this.samplesPath = path.resolve(samplesDir, 'email-samples');
+    this.indexPath = path.resolve(samplesDir, 'index.json');
   }
 
-  async loadSamples(): Promise<EmailSample[]> {
+  async loadSamples(query: SampleQuery = {}): Promise<EmailSample[]> {
+    let samples: EmailSample[];
     try {
-      const indexPath = path.join(__dirname, '../../tests/index.json');
-      const indexData = fs.readFileSync(indexPath, 'utf-8');
-      const samples = JSON.parse(indexData);
-      return samples.emailSamples || [];
+      samples = (await this.readIndex()).emailSamples;
     } catch (error) {
       console.error('Error loading samples:', error);
       return [];
     }
+
+    const tag = query.tag?.toLowerCase();
+    const text = query.q?.toLowerCase();
+
+    return samples.filter(sample => {
+      if (tag && !(sample.tags || []).includes(tag)) return false;
+      if (text && ![sample.name, sample.description, ...(sample.features || [])]
+        .some(value => (value || '').toLowerCase().includes(text))) return false;
+      return true;
+    });
   }
 
   async getSampleContent(sampleId: string): Promise<string> {
     try {
       const samples = await this.loadSamples();
       const sample = samples.find(s => s.id === sampleId);
-      
+
       if (!sample) {
         throw new Error(`Sample with id ${sampleId} not found`);
       }
 
-      const filePath = path.join(this.samplesPath, sample.file);
-      return fs.readFileSync(filePath, 'utf-8');
+      return fs.readFileSync(this.samplePath(sample.file), 'utf-8');
     } catch (error) {
       throw new Error(`Failed to get sample content: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
+  /**
+   * Checks a sample body. Creating requires every field except `tags` and
+   * `rulesExpected`; updates only check the fields they carry. Returns an
+   * error message, or null when the input is valid.
+   */
+  validate(id: string, input: SampleInput & { file?: unknown }, partial: boolean): string | null {
+    if (!SAMPLE_ID.test(id)) {
+      return 'Sample id must be 1-64 lowercase letters, digits or dashes, starting with a letter or digit';
+    }
+    if (id === 'verify') {
+      return '"verify" is reserved for POST /api/test-samples/verify';
+    }
+    if (!input || typeof input !== 'object') {
+      return 'Sample body must be a JSON object';
+    }
+    if (input.file !== undefined) {
+      return 'file is assigned by the server and cannot be set';
+    }
+
+    const required = (field: keyof SampleInput) => !partial && input[field] === undefined;
+
+    if (required('name') || (input.name !== undefined && (typeof input.name !== 'string' || !input.name.trim() || input.name.length > 200))) {
+      return 'name must be a non-empty string of at most 200 characters';
+    }
+    if (required('description') || (input.description !== undefined && (typeof input.description !== 'string' || input.description.length > 2000))) {
+      return 'description must be a string of at most 2000 characters';
+    }
+    if (required('features') || (input.features !== undefined && (!Array.isArray(input.features) || input.features.length > 50 ||
+      input.features.some(feature => typeof feature !== 'string' || !feature.trim() || feature.length > 200)))) {
+      return 'features must be an array of at most 50 non-empty strings';
+    }
+    if (required('violationsExpected') || (input.violationsExpected !== undefined &&
+      (!Number.isInteger(input.violationsExpected) || input.violationsExpected < 0))) {
+      return 'violationsExpected must be a non-negative integer';
+    }
+    if (input.rulesExpected !== undefined && (!Array.isArray(input.rulesExpected) || input.rulesExpected.length > 200 ||
+      input.rulesExpected.some(ruleId => typeof ruleId !== 'string' || !/^[\w-]+$/.test(ruleId)))) {
+      return 'rulesExpected must be an array of rule ids';
+    }
+    if (input.tags !== undefined && (!Array.isArray(input.tags) || input.tags.length > 20 ||
+      input.tags.some(tag => typeof tag !== 'string' || !SAMPLE_TAG.test(tag.toLowerCase())))) {
+      return 'tags must be an array of at most 20 tags made of letters, digits or dashes';
+    }
+    if (required('html') || (input.html !== undefined && (typeof input.html !== 'string' || !input.html.trim()))) {
+      return 'html must be a non-empty string';
+    }
+    if (input.html !== undefined && input.html.length > MAX_SAMPLE_SIZE) {
+      return 'html exceeds 1MB limit';
+    }
+
+    return null;
+  }
+
+  /**
+   * Adds a sample and writes its HTML under a file name derived from the id.
+   * Returns null when a sample with that id already exists.
+   */
+  async createSample(id: string, input: SampleInput): Promise<EmailSample | null> {
+    return this.withIndexLock(async () => {
+      const index = await this.readIndex();
+      if (index.emailSamples.some(sample => sample.id === id)) return null;
+
+      const sample: EmailSample = {
+        id,
+        name: input.name!.trim(),
+        file: this.uniqueFileName(id, index.emailSamples),
+        description: input.description!,
+        features: input.features!.map(feature => feature.trim()),
+        violationsExpected: input.violationsExpected!,
+        rulesExpected: input.rulesExpected ? Array.from(new Set(input.rulesExpected)) : undefined,
+        tags: this.normalizeTags(input.tags)
+      };
+
+      await fs.promises.mkdir(this.samplesPath, { recursive: true });
+      await this.writeAtomic(this.samplePath(sample.file), input.html!);
+      await this.writeIndex({ ...index, emailSamples: [...index.emailSamples, sample] });
+
+      return sample;
+    });
+  }
+
+  /** Updates the given fields of a sample. Returns null when it does not exist. */
+  async updateSample(id: string, input: SampleInput): Promise<EmailSample | null> {
+    return this.withIndexLock(async () => {
+      const index = await this.readIndex();
+      const existing = index.emailSamples.find(sample => sample.id === id);
+      if (!existing) return null;
+
+      const sample: EmailSample = {
+        ...existing,
+        name: input.name !== undefined ? input.name.trim() : existing.name,
+        description: input.description ?? existing.description,
+        features: input.features ? input.features.map(feature => feature.trim()) : existing.features,
+        violationsExpected: input.violationsExpected ?? existing.violationsExpected,
+        rulesExpected: input.rulesExpected ? Array.from(new Set(input.rulesExpected)) : existing.rulesExpected,
+        tags: input.tags ? this.normalizeTags(input.tags) : existing.tags
+      };
+
+      if (input.html !== undefined) {
+        // Older entries may point outside the samples directory; they get a fresh file
+        if (!this.isSafeFileName(sample.file)) {
+          sample.file = this.uniqueFileName(id, index.emailSamples);
+        }
+        await fs.promises.mkdir(this.samplesPath, { recursive: true });
+        await this.writeAtomic(this.samplePath(sample.file), input.html);
+      }
+
+      await this.writeIndex({
+        ...index,
+        emailSamples: index.emailSamples.map(entry => entry.id === id ? sample : entry)
+      });
+
+      return sample;
+    });
+  }
+
+  /** Removes a sample and its HTML file. Returns false when it does not exist. */
+  async deleteSample(id: string): Promise<boolean> {
+    return this.withIndexLock(async () => {
+      const index = await this.readIndex();
+      const existing = index.emailSamples.find(sample => sample.id === id);
+      if (!existing) return false;
+
+      const remaining = index.emailSamples.filter(sample => sample.id !== id);
+      await this.writeIndex({ ...index, emailSamples: remaining });
+
+      if (this.isSafeFileName(existing.file) && !remaining.some(sample => sample.file === existing.file)) {
+        await fs.promises.rm(this.samplePath(existing.file), { force: true });
+      }
+
+      return true;
+    });
+  }
+
   async sendSampleToMailHog(sampleId: string): Promise<boolean> {
     try {
       const htmlContent = await this.getSampleContent(sampleId);
       const samples = await this.loadSamples();
       const sample = samples.find(s => s.id === sampleId);
-      
+
       if (!sample) {
         throw new Error(`Sample with id ${sampleId} not found`);
       }
 
-      const nodemailer = require('nodemailer');
-      
-      const transporter = nodemailer.createTransport({
-        host: process.env.MAILHOG_HOST,
-        port: Number(process.env.MAILHOG_SMTP_PORT),
-        secure: process.env.SMTP_SECURE === 'true',
-        ignoreTLS: process.env.SMTP_IGNORE_TLS === 'true',
-      });
-
-      await transporter.sendMail({
-        from: process.env.DEFAULT_FROM_EMAIL,
-        to: process.env.DEFAULT_TO_EMAIL,
+      await getInbox().sendEmail({
+        to: [process.env.DEFAULT_TO_EMAIL || ''],
         subject: `Test Sample: ${sample.name}`,
         html: htmlContent
       });
@@ -69,4 +211,63 @@ export class SampleService {
       return false;
     }
   }
+
+  private async readIndex(): Promise<{ emailSamples: EmailSample[]; [key: string]: unknown }> {
+    let data: string;
+    try {
+      data = await fs.promises.readFile(this.indexPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return { emailSamples: [] };
+      throw error;
+    }
+
+    // A malformed index throws instead of reading as empty, so writes never drop samples
+    const index = JSON.parse(data);
+    return { ...index, emailSamples: Array.isArray(index.emailSamples) ? index.emailSamples : [] };
+  }
+
+  private async writeIndex(index: { emailSamples: EmailSample[] }): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.indexPath), { recursive: true });
+    await this.writeAtomic(this.indexPath, `${JSON.stringify(index, null, 2)}\n`);
+  }
+
+  private withIndexLock<T>(task: () => Promise<T>): Promise<T> {
+    const result = indexLock.then(task);
+    indexLock = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Resolves a sample's file inside the samples directory. Index entries are
+   * plain file names; anything that would leave the directory is rejected.
+   */
+  samplePath(file: string): string {
+    if (!this.isSafeFileName(file)) {
+      throw new Error(`Invalid sample file: ${file}`);
+    }
+    return path.join(this.samplesPath, file);
+  }
+
+  private isSafeFileName(file: unknown): file is string {
+    return typeof file === 'string' && /^[\w-]+(\.[\w-]+)*\.html$/.test(file) && path.basename(file) === file;
+  }
+
+  private uniqueFileName(id: string, samples: EmailSample[]): string {
+    const taken = new Set(samples.map(sample => sample.file));
+    let file = `${id}.html`;
+    for (let suffix = 2; taken.has(file); suffix++) {
+      file = `${id}-${suffix}.html`;
+    }
+    return file;
+  }
+
+  private normalizeTags(tags: string[] | undefined): string[] | undefined {
+    return tags ? Array.from(new Set(tags.map(tag => tag.toLowerCase()))) : undefined;
+  }
+
+  private async writeAtomic(filePath: string, data: string): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, data, 'utf-8');
+    await fs.promises.rename(tempPath, filePath);
+  }
 }
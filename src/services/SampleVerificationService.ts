@@ -0,0 +1,71 @@
+import { EmailSample, SampleVerificationReport, SampleVerificationResult } from '@/types';
+import { AccessibilityScanner } from './AccessibilityScanner';
+import { SampleService } from './SampleService';
+
+export class SampleVerificationService {
+  private scanner: AccessibilityScanner;
+  private sampleService: SampleService;
+
+  constructor(scanner: AccessibilityScanner = new AccessibilityScanner(), sampleService: SampleService = new SampleService()) {
+    this.scanner = scanner;
+    this.sampleService = sampleService;
+  }
+
+  /**
+   * Scans samples and checks them against their declared expectations: the
+   * number of violated rules must be within `tolerance` of
+   * `violationsExpected`, and when `rulesExpected` is set the violated rule ids
+   * must match it exactly. Scans share the browser pool, which bounds how many
+   * run at once.
+   */
+  async verify(samples: EmailSample[], tolerance: number = 0): Promise<SampleVerificationReport> {
+    const results = await Promise.all(samples.map(sample => this.verifySample(sample, tolerance)));
+    const passedCount = results.filter(result => result.passed).length;
+
+    return {
+      passed: passedCount === results.length,
+      total: results.length,
+      passedCount,
+      failedCount: results.length - passedCount,
+      tolerance,
+      results,
+      timestamp: new Date().toISOString()
+    };
+  }
+
+  private async verifySample(sample: EmailSample, tolerance: number): Promise<SampleVerificationResult> {
+    const startTime = Date.now();
+    const base = {
+      id: sample.id,
+      name: sample.name,
+      violationsExpected: sample.violationsExpected,
+      rulesExpected: sample.rulesExpected
+    };
+
+    let error: string | undefined;
+    let rulesActual: string[] = [];
+    try {
+      const html = await this.sampleService.getSampleContent(sample.id);
+      const result = await this.scanner.scanHtml({ html });
+      error = result.error;
+      rulesActual = (result.violations || []).map(violation => violation.id).sort();
+    } catch (scanError) {
+      error = scanError instanceof Error ? scanError.message : 'Unknown error';
+    }
+
+    const missingRules = (sample.rulesExpected || []).filter(ruleId => !rulesActual.includes(ruleId));
+    const unexpectedRules = sample.rulesExpected ? rulesActual.filter(ruleId => !sample.rulesExpected!.includes(ruleId)) : [];
+    const countMatches = Math.abs(rulesActual.length - sample.violationsExpected) <= tolerance;
+
+    return {
+      ...base,
+      passed: !error && countMatches && missingRules.length === 0 && unexpectedRules.length === 0,
+      violationsActual: rulesActual.length,
+      rulesActual,
+      missingRules,
+      unexpectedRules,
+      durationMs: Date.now() - startTime,
+      error
+    };
+  }
+}
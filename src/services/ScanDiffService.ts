@@ -0,0 +1,78 @@
+import { createHash } from 'crypto';
+import { AccessibilityNode, AccessibilityViolation, ScanDiff, ScanResult, ViolationDiffEntry } from '@/types';
+
+export class ScanDiffService {
+  /**
+   * Compares the violations of two scans. Each violating node is matched by
+   * rule id and a fingerprint of its target selector, so reordering siblings in
+   * a template does not turn every violation into a new one.
+   */
+  diff(base: ScanResult, head: ScanResult): ScanDiff {
+    const baseEntries = this.toEntries(base.violations || []);
+    const headEntries = this.toEntries(head.violations || []);
+    const baseFingerprints = new Set(baseEntries.map(entry => entry.fingerprint));
+    const headFingerprints = new Set(headEntries.map(entry => entry.fingerprint));
+
+    const added = headEntries.filter(entry => !baseFingerprints.has(entry.fingerprint));
+    const fixed = baseEntries.filter(entry => !headFingerprints.has(entry.fingerprint));
+    const unchanged = headEntries.filter(entry => baseFingerprints.has(entry.fingerprint));
+
+    return {
+      new: added,
+      fixed,
+      unchanged,
+      summary: {
+        new: added.length,
+        fixed: fixed.length,
+        unchanged: unchanged.length
+      }
+    };
+  }
+
+  fingerprint(ruleId: string, node: AccessibilityNode, occurrence: number = 0): string {
+    const target = (node.target || [])
+      .map(selector => this.normalizeSelector(selector))
+      .join(' >>> ');
+
+    return createHash('sha1')
+      .update(`${ruleId}|${target}|${occurrence}`)
+      .digest('hex')
+      .substring(0, 16);
+  }
+
+  private toEntries(violations: AccessibilityViolation[]): ViolationDiffEntry[] {
+    const entries: ViolationDiffEntry[] = [];
+
+    violations.forEach(violation => {
+      // Identical normalized selectors are told apart by their order of appearance
+      const occurrences = new Map<string, number>();
+
+      (violation.nodes || []).forEach(node => {
+        const key = this.fingerprint(violation.id, node);
+        const occurrence = occurrences.get(key) || 0;
+        occurrences.set(key, occurrence + 1);
+
+        entries.push({
+          ruleId: violation.id,
+          impact: violation.impact,
+          description: violation.description,
+          help: violation.help,
+          helpUrl: violation.helpUrl,
+          fingerprint: this.fingerprint(violation.id, node, occurrence),
+          node
+        });
+      });
+    });
+
+    return entries;
+  }
+
+  private normalizeSelector(selector: string): string {
+    return String(selector)
+      .replace(/:nth-(child|of-type)\([^)]*\)/g, '')
+      .replace(/\s*>\s*/g, ' > ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .toLowerCase();
+  }
+}
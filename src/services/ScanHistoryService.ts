@@ -0,0 +1,133 @@
+import { createHash, randomUUID } from 'crypto';
+import {
+  ScanHistoryPage,
+  ScanHistoryQuery,
+  ScanHistoryRecord,
+  ScanHistorySummary,
+  ScanResult,
+  ScanSource,
+  ViolationScreenshots
+} from '@/types';
+import { JsonFileHistoryStore, ScanHistoryStore, ScreenshotKey } from './ScanHistoryStore';
+
+export interface RecordScanInput {
+  id?: string;
+  html: string;
+  result: ScanResult;
+  durationMs: number;
+  source: ScanSource;
+  emailId?: string;
+  subject?: string;
+  screenshots?: ViolationScreenshots;
+}
+
+export class ScanHistoryService {
+  private store: ScanHistoryStore;
+  private summaries: Map<string, ScanHistorySummary> | null = null;
+
+  constructor(store: ScanHistoryStore = new JsonFileHistoryStore()) {
+    this.store = store;
+  }
+
+  async record(input: RecordScanInput): Promise<ScanHistoryRecord> {
+    const record: ScanHistoryRecord = {
+      id: input.id || randomUUID(),
+      createdAt: new Date().toISOString(),
+      source: input.source,
+      durationMs: input.durationMs,
+      htmlHash: createHash('sha256').update(input.html).digest('hex'),
+      htmlLength: input.html.length,
+      emailId: input.emailId,
+      subject: input.subject,
+      result: input.result
+    };
+
+    // Images first, so a stored record never points at missing screenshots
+    if (input.screenshots) {
+      await this.store.saveScreenshots(record.id, input.screenshots);
+    }
+    await this.store.save(record, input.html);
+
+    const summaries = await this.loadSummaries();
+    summaries.set(record.id, this.summarize(record));
+
+    return record;
+  }
+
+  async get(id: string): Promise<{ record: ScanHistoryRecord; html: string | null } | null> {
+    if (!/^[\w-]+$/.test(id)) return null;
+
+    const record = await this.store.get(id);
+    if (!record) return null;
+
+    const html = await this.store.getHtml(id);
+    return { record, html };
+  }
+
+  async getScreenshot(id: string, key: ScreenshotKey): Promise<Buffer | null> {
+    if (!/^[\w-]+$/.test(id)) return null;
+    return this.store.getScreenshot(id, key);
+  }
+
+  async query(query: ScanHistoryQuery): Promise<ScanHistoryPage> {
+    const summaries = Array.from((await this.loadSummaries()).values());
+    const subject = query.subject?.toLowerCase();
+
+    const matches = summaries
+      .filter(summary => {
+        const createdAt = new Date(summary.createdAt).getTime();
+        if (query.from && createdAt < query.from.getTime()) return false;
+        if (query.to && createdAt > query.to.getTime()) return false;
+        if (subject && !(summary.subject || '').toLowerCase().includes(subject)) return false;
+        if (query.ruleId && !summary.ruleIds.includes(query.ruleId)) return false;
+        if (query.impact && !summary.impacts.includes(query.impact)) return false;
+        return true;
+      })
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+    const start = (query.page - 1) * query.pageSize;
+
+    return {
+      items: matches.slice(start, start + query.pageSize),
+      total: matches.length,
+      page: query.page,
+      pageSize: query.pageSize,
+      totalPages: Math.ceil(matches.length / query.pageSize)
+    };
+  }
+
+  private async loadSummaries(): Promise<Map<string, ScanHistorySummary>> {
+    if (!this.summaries) {
+      const records = await this.store.list();
+      this.summaries = new Map(records.map(record => [record.id, this.summarize(record)]));
+    }
+    return this.summaries;
+  }
+
+  private summarize(record: ScanHistoryRecord): ScanHistorySummary {
+    const violations = record.result.violations || [];
+
+    return {
+      id: record.id,
+      createdAt: record.createdAt,
+      source: record.source,
+      durationMs: record.durationMs,
+      htmlHash: record.htmlHash,
+      emailId: record.emailId,
+      subject: record.subject,
+      violationsCount: violations.length,
+      ruleIds: violations.map(violation => violation.id),
+      impacts: Array.from(new Set(violations.map(violation => violation.impact))),
+      error: record.result.error
+    };
+  }
+}
+
+let sharedHistory: ScanHistoryService | null = null;
+
+export function getScanHistory(): ScanHistoryService {
+  if (!sharedHistory) {
+    sharedHistory = new ScanHistoryService();
+  }
+  return sharedHistory;
+}
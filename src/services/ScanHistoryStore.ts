@@ -0,0 +1,115 @@
+import fs from 'fs';
+import path from 'path';
+import { ScanHistoryRecord, ViolationScreenshots } from '@/types';
+
+/** `full` for the full-page screenshot, otherwise a node screenshot index. */
+export type ScreenshotKey = 'full' | number;
+
+/**
+ * Storage backend for scan history. The default implementation writes one
+ * JSON file per scan plus the original HTML and any screenshots next to it.
+ */
+export interface ScanHistoryStore {
+  save(record: ScanHistoryRecord, html: string): Promise<void>;
+  saveScreenshots(id: string, screenshots: ViolationScreenshots): Promise<void>;
+  get(id: string): Promise<ScanHistoryRecord | null>;
+  getHtml(id: string): Promise<string | null>;
+  getScreenshot(id: string, key: ScreenshotKey): Promise<Buffer | null>;
+  list(): Promise<ScanHistoryRecord[]>;
+}
+
+export class JsonFileHistoryStore implements ScanHistoryStore {
+  private readonly directory: string;
+
+  constructor(directory?: string) {
+    this.directory = path.resolve(directory || process.env.SCAN_HISTORY_DIR || 'data/history');
+  }
+
+  async save(record: ScanHistoryRecord, html: string): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    await this.writeAtomic(this.filePath(record.id, 'html'), html);
+    await this.writeAtomic(this.filePath(record.id, 'json'), JSON.stringify(record, null, 2));
+  }
+
+  async saveScreenshots(id: string, screenshots: ViolationScreenshots): Promise<void> {
+    const directory = this.screenshotDirectory(id);
+    await fs.promises.mkdir(directory, { recursive: true });
+    await this.writeAtomic(path.join(directory, this.screenshotFile('full')), screenshots.fullPage);
+
+    for (let index = 0; index < screenshots.nodes.length; index++) {
+      await this.writeAtomic(path.join(directory, this.screenshotFile(index)), screenshots.nodes[index]);
+    }
+  }
+
+  async get(id: string): Promise<ScanHistoryRecord | null> {
+    const data = await this.readIfExists(this.filePath(id, 'json'));
+    return data ? JSON.parse(data) : null;
+  }
+
+  async getHtml(id: string): Promise<string | null> {
+    return this.readIfExists(this.filePath(id, 'html'));
+  }
+
+  async getScreenshot(id: string, key: ScreenshotKey): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(path.join(this.screenshotDirectory(id), this.screenshotFile(key)));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async list(): Promise<ScanHistoryRecord[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const records: ScanHistoryRecord[] = [];
+    for (const file of files.filter(f => f.endsWith('.json'))) {
+      try {
+        const data = await fs.promises.readFile(path.join(this.directory, file), 'utf-8');
+        records.push(JSON.parse(data));
+      } catch (error) {
+        console.error('Skipping unreadable scan history file:', file, error);
+      }
+    }
+    return records;
+  }
+
+  private filePath(id: string, extension: 'json' | 'html'): string {
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error(`Invalid scan id: ${id}`);
+    }
+    return path.join(this.directory, `${id}.${extension}`);
+  }
+
+  private screenshotDirectory(id: string): string {
+    if (!/^[\w-]+$/.test(id)) {
+      throw new Error(`Invalid scan id: ${id}`);
+    }
+    return path.join(this.directory, `${id}.screenshots`);
+  }
+
+  private screenshotFile(key: ScreenshotKey): string {
+    return key === 'full' ? 'full.png' : `node-${key}.png`;
+  }
+
+  private async readIfExists(filePath: string): Promise<string | null> {
+    try {
+      return await fs.promises.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  private async writeAtomic(filePath: string, data: string | Buffer): Promise<void> {
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, data);
+    await fs.promises.rename(tempPath, filePath);
+  }
+}
@@ -0,0 +1,223 @@
+import { randomUUID } from 'crypto';
+import { ScanJob, ScanJobRequest, ScanResult, ViolationScreenshots } from '@/types';
+import { AccessibilityScanner } from './AccessibilityScanner';
+import { MemoryScanJobStore, ScanJobStore } from './ScanJobStore';
+import { ScanHistoryService, getScanHistory } from './ScanHistoryService';
+
+export class ScanJobQueue {
+  private store: ScanJobStore;
+  private scanner: AccessibilityScanner;
+  private scanHistory: ScanHistoryService;
+  private readonly concurrency: number;
+  private readonly defaultTimeoutMs: number;
+  private readonly defaultMaxRetries: number;
+  private running: number = 0;
+  /** Aborts the scans of jobs running in this process. */
+  private activeScans: Map<string, AbortController> = new Map();
+  private isShuttingDown: boolean = false;
+
+  constructor(store: ScanJobStore = new MemoryScanJobStore(), scanner: AccessibilityScanner = new AccessibilityScanner()) {
+    this.store = store;
+    this.scanner = scanner;
+    this.scanHistory = getScanHistory();
+    this.concurrency = Math.max(1, Number(process.env.SCAN_JOB_CONCURRENCY) || Number(process.env.BROWSER_POOL_SIZE) || 2);
+    this.defaultTimeoutMs = Number(process.env.SCAN_JOB_TIMEOUT) || 60000;
+    this.defaultMaxRetries = parseRetries(process.env.SCAN_JOB_MAX_RETRIES, 1);
+  }
+
+  async submit(request: ScanJobRequest): Promise<ScanJob> {
+    if (this.isShuttingDown) {
+      throw new Error('Scan queue is shutting down');
+    }
+
+    const { priority = 'normal', timeoutMs, maxRetries, ...scanRequest } = request;
+    const job: ScanJob = {
+      id: randomUUID(),
+      status: 'queued',
+      priority,
+      request: scanRequest,
+      attempts: 0,
+      maxRetries: maxRetries ?? this.defaultMaxRetries,
+      timeoutMs: timeoutMs ?? this.defaultTimeoutMs,
+      createdAt: new Date().toISOString()
+    };
+
+    await this.store.save(job);
+    await this.store.enqueue(job.id, job.priority);
+    this.pump();
+
+    return job;
+  }
+
+  async get(id: string): Promise<ScanJob | null> {
+    return this.store.get(id);
+  }
+
+  async cancel(id: string): Promise<ScanJob | null> {
+    const job = await this.store.get(id);
+    if (!job) return null;
+
+    if (job.status !== 'queued' && job.status !== 'running') {
+      return job;
+    }
+
+    await this.store.removeFromQueue(id);
+    const cancelled: ScanJob = {
+      ...job,
+      status: 'cancelled',
+      completedAt: new Date().toISOString()
+    };
+    await this.store.save(cancelled);
+    this.activeScans.get(id)?.abort(new Error('Scan job cancelled'));
+
+    return cancelled;
+  }
+
+  async getStats(): Promise<{ running: number; concurrency: number; queueDepth: number }> {
+    return {
+      running: this.running,
+      concurrency: this.concurrency,
+      queueDepth: await this.store.queueDepth()
+    };
+  }
+
+  shutdown(): void {
+    this.isShuttingDown = true;
+  }
+
+  private pump(): void {
+    if (this.isShuttingDown || this.running >= this.concurrency) return;
+
+    this.running++;
+    this.store.dequeue()
+      .then(async (id) => {
+        if (!id) return false;
+        await this.runJob(id);
+        return true;
+      })
+      .catch((error) => {
+        console.error('Scan job queue error:', error);
+        return false;
+      })
+      .then((processed) => {
+        this.running--;
+        if (processed) {
+          this.pump();
+        }
+      });
+
+    // Fill the remaining worker slots
+    if (this.running < this.concurrency) {
+      this.store.queueDepth().then(depth => {
+        if (depth > 0) this.pump();
+      });
+    }
+  }
+
+  private async runJob(id: string): Promise<void> {
+    const job = await this.store.get(id);
+    if (!job || job.status !== 'queued') return;
+
+    const startTime = Date.now();
+    job.status = 'running';
+    job.attempts++;
+    job.startedAt = new Date(startTime).toISOString();
+    await this.store.save(job);
+
+    console.log('Starting scan job', { jobId: id, attempt: job.attempts, priority: job.priority });
+
+    let result: ScanResult | null = null;
+    let screenshots: ViolationScreenshots | undefined;
+    let error: string | undefined;
+
+    const controller = new AbortController();
+    this.activeScans.set(id, controller);
+    try {
+      const scan = this.scanner.scanWithScreenshots(job.request, controller.signal);
+      ({ result, screenshots } = await this.withTimeout(scan, job.timeoutMs, controller));
+      error = result.error;
+    } catch (scanError) {
+      error = scanError instanceof Error ? scanError.message : 'Unknown error';
+    } finally {
+      this.activeScans.delete(id);
+    }
+
+    // The job may have been cancelled while the scan was running
+    const current = await this.store.get(id);
+    if (!current || current.status === 'cancelled') {
+      console.log('Discarding result of cancelled scan job', { jobId: id });
+      return;
+    }
+
+    if (error && job.attempts <= job.maxRetries) {
+      console.warn('Scan job failed, retrying', { jobId: id, attempt: job.attempts, error });
+      await this.store.save({ ...job, status: 'queued', error });
+      await this.store.enqueue(id, job.priority);
+      return;
+    }
+
+    const completed: ScanJob = {
+      ...job,
+      status: error ? 'failed' : 'completed',
+      result: result || undefined,
+      error,
+      completedAt: new Date().toISOString(),
+      durationMs: Date.now() - startTime
+    };
+    await this.store.save(completed);
+
+    if (result) {
+      try {
+        await this.scanHistory.record({
+          id: job.id,
+          html: job.request.html,
+          result,
+          durationMs: completed.durationMs!,
+          source: 'job',
+          screenshots
+        });
+      } catch (historyError) {
+        console.error('Failed to record scan history:', historyError);
+      }
+    }
+
+    console.log('Scan job finished', { jobId: id, status: completed.status, duration: `${completed.durationMs}ms` });
+  }
+
+  private withTimeout<T>(promise: Promise<T>, timeoutMs: number, controller: AbortController): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        const error = new Error(`Scan timed out after ${timeoutMs}ms`);
+        // Stops the scan so it does not hold on to a browser
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+
+      promise.then(
+        value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+}
+
+/** Reads a retry count, where 0 disables retries. */
+function parseRetries(value: string | undefined, fallback: number): number {
+  const retries = Number(value);
+  return value?.trim() && Number.isInteger(retries) && retries >= 0 ? retries : fallback;
+}
+
+let sharedQueue: ScanJobQueue | null = null;
+
+export function getScanJobQueue(): ScanJobQueue {
+  if (!sharedQueue) {
+    sharedQueue = new ScanJobQueue();
+  }
+  return sharedQueue;
+}
@@ -0,0 +1,74 @@
+import { ScanJob, ScanJobPriority } from '@/types';
+
+/**
+ * Persistence for scan jobs and their pending queue. All methods are async so
+ * the in-process store can be replaced by a shared one (e.g. Redis) without
+ * touching the queue logic.
+ */
+export interface ScanJobStore {
+  save(job: ScanJob): Promise<void>;
+  get(id: string): Promise<ScanJob | null>;
+  enqueue(id: string, priority: ScanJobPriority): Promise<void>;
+  dequeue(): Promise<string | null>;
+  removeFromQueue(id: string): Promise<boolean>;
+  queueDepth(): Promise<number>;
+}
+
+const PRIORITY_ORDER: Record<ScanJobPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2
+};
+
+export class MemoryScanJobStore implements ScanJobStore {
+  private jobs: Map<string, ScanJob> = new Map();
+  private queue: { id: string; priority: ScanJobPriority; sequence: number }[] = [];
+  private sequence: number = 0;
+  private readonly retentionMs: number;
+
+  constructor(retentionMs?: number) {
+    this.retentionMs = retentionMs || Number(process.env.SCAN_JOB_RETENTION) || 60 * 60 * 1000;
+  }
+
+  async save(job: ScanJob): Promise<void> {
+    this.jobs.set(job.id, { ...job });
+    this.prune();
+  }
+
+  async get(id: string): Promise<ScanJob | null> {
+    const job = this.jobs.get(id);
+    return job ? { ...job } : null;
+  }
+
+  async enqueue(id: string, priority: ScanJobPriority): Promise<void> {
+    this.queue.push({ id, priority, sequence: this.sequence++ });
+    this.queue.sort((a, b) =>
+      PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.sequence - b.sequence
+    );
+  }
+
+  async dequeue(): Promise<string | null> {
+    const entry = this.queue.shift();
+    return entry ? entry.id : null;
+  }
+
+  async removeFromQueue(id: string): Promise<boolean> {
+    const index = this.queue.findIndex(entry => entry.id === id);
+    if (index === -1) return false;
+    this.queue.splice(index, 1);
+    return true;
+  }
+
+  async queueDepth(): Promise<number> {
+    return this.queue.length;
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    this.jobs.forEach((job, id) => {
+      if (job.completedAt && new Date(job.completedAt).getTime() < cutoff) {
+        this.jobs.delete(id);
+      }
+    });
+  }
+}
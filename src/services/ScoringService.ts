@@ -0,0 +1,98 @@
+import fs from 'fs';
+import path from 'path';
+import { AccessibilityScore, ImpactLevel, ImpactScoreBreakdown, ScanResult, ScoringConfig } from '@/types';
+
+const IMPACT_LEVELS: ImpactLevel[] = ['critical', 'serious', 'moderate', 'minor'];
+
+const DEFAULT_SCORING: ScoringConfig = {
+  impactWeights: { critical: 15, serious: 8, moderate: 4, minor: 1 },
+  nodeWeight: 0.2,
+  maxNodesPerRule: 10,
+  grades: [
+    { grade: 'A', minScore: 90 },
+    { grade: 'B', minScore: 80 },
+    { grade: 'C', minScore: 70 },
+    { grade: 'D', minScore: 60 },
+    { grade: 'F', minScore: 0 }
+  ]
+};
+
+export class ScoringService {
+  private readonly configPath: string;
+  private config: ScoringConfig | null = null;
+
+  constructor(configPath?: string) {
+    this.configPath = configPath || process.env.SCORING_CONFIG_PATH || path.join(__dirname, '../../config/scoring.json');
+  }
+
+  /**
+   * Scores a scan from 0 to 100. Every violated rule deducts its impact weight,
+   * raised by `nodeWeight` of that weight for each further affected node.
+   * Failed scans have no score and return undefined.
+   */
+  score(result: ScanResult): AccessibilityScore | undefined {
+    if (result.error) return undefined;
+
+    const config = this.loadConfig();
+    const breakdown = {} as Record<ImpactLevel, ImpactScoreBreakdown>;
+    IMPACT_LEVELS.forEach(impact => {
+      breakdown[impact] = { violations: 0, nodes: 0, penalty: 0 };
+    });
+
+    (result.violations || []).forEach(violation => {
+      // Rules without a known impact count as minor
+      const impact = IMPACT_LEVELS.includes(violation.impact as ImpactLevel) ? violation.impact as ImpactLevel : 'minor';
+      const nodes = Math.max(1, violation.nodes?.length || 0);
+      const weight = config.impactWeights[impact];
+
+      breakdown[impact].violations++;
+      breakdown[impact].nodes += nodes;
+      breakdown[impact].penalty += weight * (1 + config.nodeWeight * (Math.min(nodes, config.maxNodesPerRule) - 1));
+    });
+
+    const penalty = IMPACT_LEVELS.reduce((sum, impact) => sum + breakdown[impact].penalty, 0);
+    const score = Math.max(0, Math.round(100 - penalty));
+
+    IMPACT_LEVELS.forEach(impact => {
+      breakdown[impact].penalty = Math.round(breakdown[impact].penalty * 10) / 10;
+    });
+
+    return { score, grade: this.gradeFor(score, config), breakdown };
+  }
+
+  private gradeFor(score: number, config: ScoringConfig): string {
+    // Grades are sorted by minScore, highest first
+    return config.grades.find(g => score >= g.minScore)?.grade || 'F';
+  }
+
+  private loadConfig(): ScoringConfig {
+    if (!this.config) {
+      try {
+        const data = JSON.parse(fs.readFileSync(this.configPath, 'utf-8'));
+        this.config = {
+          impactWeights: { ...DEFAULT_SCORING.impactWeights, ...data.impactWeights },
+          nodeWeight: typeof data.nodeWeight === 'number' ? data.nodeWeight : DEFAULT_SCORING.nodeWeight,
+          maxNodesPerRule: Number.isInteger(data.maxNodesPerRule) && data.maxNodesPerRule > 0
+            ? data.maxNodesPerRule
+            : DEFAULT_SCORING.maxNodesPerRule,
+          grades: Array.isArray(data.grades) && data.grades.length > 0
+            ? [...data.grades].sort((a, b) => b.minScore - a.minScore)
+            : DEFAULT_SCORING.grades
+        };
+      } catch (error) {
+        console.error('Error loading scoring config, using defaults:', error);
+        this.config = DEFAULT_SCORING;
+      }
+    }
+    return this.config!;
+  }
+}
+
+let sharedScoring: ScoringService | null = null;
+
+export function getScoringService(): ScoringService {
+  if (!sharedScoring) {
+    sharedScoring = new ScoringService();
+  }
+  return sharedScoring;
+}
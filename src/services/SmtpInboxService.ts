@@ -0,0 +1,218 @@
+import { randomUUID } from 'crypto';
+import MailComposer from 'nodemailer/lib/mail-composer';
+import { SMTPServer, SMTPServerAddress, SMTPServerDataStream } from 'smtp-server';
+import { EmailData, EmailListQuery, EmailListResponse, EmailSummary, InboxMessage, OutgoingEmail, ParsedEmailMessage } from '@/types';
+import { InboxProvider } from './InboxProvider';
+import { DiskInboxMessageStore, InboxMessageStore, MemoryInboxMessageStore } from './InboxMessageStore';
+import { MimeParser } from './MimeParser';
+
+export class SmtpInboxService implements InboxProvider {
+  readonly name = 'smtp';
+  readonly supportsPush = true;
+
+  private store: InboxMessageStore;
+  private mimeParser: MimeParser;
+  private server: SMTPServer | null = null;
+  private listeners: ((email: EmailData) => void)[] = [];
+  private readonly port: number;
+  private readonly host: string;
+  private readonly maxMessageSize: number;
+
+  constructor(store?: InboxMessageStore) {
+    this.store = store || (process.env.SMTP_INBOX_STORAGE === 'disk'
+      ? new DiskInboxMessageStore()
+      : new MemoryInboxMessageStore());
+    this.mimeParser = new MimeParser();
+    this.port = Number(process.env.SMTP_INBOX_PORT) || 2525;
+    this.host = process.env.SMTP_INBOX_HOST || '0.0.0.0';
+    this.maxMessageSize = Number(process.env.SMTP_MAX_MESSAGE_SIZE) || 10 * 1024 * 1024;
+  }
+
+  async start(): Promise<void> {
+    if (this.server) return;
+
+    this.server = new SMTPServer({
+      authOptional: true,
+      disabledCommands: ['STARTTLS', 'AUTH'],
+      size: this.maxMessageSize,
+      logger: false,
+      onData: (stream: SMTPServerDataStream, session, callback) => {
+        const chunks: Buffer[] = [];
+        stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+        stream.on('end', () => {
+          if (stream.sizeExceeded) {
+            callback(new Error('Message exceeds maximum size'));
+            return;
+          }
+
+          const mailFrom = session.envelope.mailFrom as SMTPServerAddress | false;
+          this.receive(Buffer.concat(chunks), {
+            from: mailFrom ? mailFrom.address : '',
+            to: session.envelope.rcptTo.map(recipient => recipient.address)
+          })
+            .then(() => callback())
+            .catch(error => callback(error));
+        });
+      }
+    });
+
+    this.server.on('error', (error) => {
+      console.error('SMTP inbox error:', error);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server!.once('error', reject);
+      this.server!.listen(this.port, this.host, () => {
+        this.server!.off('error', reject);
+        resolve();
+      });
+    });
+
+    console.log('SMTP inbox listening', { host: this.host, port: this.port });
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+
+    const server = this.server;
+    this.server = null;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+    console.log('SMTP inbox stopped');
+  }
+
+  onMessage(listener: (email: EmailData) => void): void {
+    this.listeners.push(listener);
+  }
+
+  async checkForEmails(): Promise<EmailData> {
+    try {
+      const [latest] = await this.sortedMessages();
+      return latest ? this.toEmailData(latest) : { hasNewEmail: false };
+    } catch (error) {
+      throw new Error(`Failed to fetch emails: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getEmailData(id: string): Promise<EmailData | null> {
+    const message = await this.store.get(id);
+    return message ? this.toEmailData(message) : null;
+  }
+
+  async listEmails(query: EmailListQuery): Promise<EmailListResponse> {
+    try {
+      const matches = (await this.sortedMessages())
+        .map(message => this.toSummary(message))
+        .filter(summary =>
+          (!query.from || summary.from.toLowerCase().includes(query.from.toLowerCase())) &&
+          (!query.to || summary.to.some(to => to.toLowerCase().includes(query.to!.toLowerCase()))) &&
+          (!query.subject || summary.subject.toLowerCase().includes(query.subject.toLowerCase()))
+        );
+      const items = matches.slice(query.start, query.start + query.limit);
+
+      return { total: matches.length, start: query.start, count: items.length, items };
+    } catch (error) {
+      throw new Error(`Failed to list emails: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async getEmail(id: string): Promise<ParsedEmailMessage | null> {
+    const message = await this.store.get(id);
+    if (!message) return null;
+
+    const parsed = this.mimeParser.parse(message.raw);
+
+    return {
+      ...this.toSummary(message),
+      headers: parsed.headers,
+      html: parsed.html,
+      text: parsed.text,
+      attachments: parsed.attachments.map(({ content, ...attachment }) => attachment)
+    };
+  }
+
+  async deleteEmail(id: string): Promise<boolean> {
+    try {
+      return await this.store.delete(id);
+    } catch (error) {
+      throw new Error(`Failed to delete email: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Delivers the email straight into this inbox, as if it had been received
+   * over SMTP.
+   */
+  async sendEmail(email: OutgoingEmail): Promise<void> {
+    try {
+      const from = process.env.DEFAULT_FROM_EMAIL || 'scanner@access-time.com';
+      const raw = await new MailComposer({
+        from,
+        to: email.to,
+        cc: email.cc,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+        attachments: email.attachments
+      }).compile().build();
+
+      await this.receive(raw, { from, to: [...email.to, ...(email.cc || [])] });
+    } catch (error) {
+      throw new Error(`Failed to send email: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async receive(raw: Buffer, envelope: { from: string; to: string[] }): Promise<void> {
+    const message: InboxMessage = {
+      id: randomUUID(),
+      receivedAt: new Date().toISOString(),
+      envelopeFrom: envelope.from,
+      envelopeTo: envelope.to,
+      raw
+    };
+
+    await this.store.save(message);
+    console.log('SMTP inbox received message', { id: message.id, from: envelope.from, to: envelope.to });
+
+    const emailData = this.toEmailData(message);
+    this.listeners.forEach(listener => {
+      try {
+        listener(emailData);
+      } catch (error) {
+        console.error('SMTP inbox listener error:', error);
+      }
+    });
+  }
+
+  private async sortedMessages(): Promise<InboxMessage[]> {
+    const messages = await this.store.list();
+    return messages.sort((a, b) => b.receivedAt.localeCompare(a.receivedAt));
+  }
+
+  private toSummary(message: InboxMessage): EmailSummary {
+    const parsed = this.mimeParser.parse(message.raw);
+
+    return {
+      id: message.id,
+      from: parsed.from || message.envelopeFrom,
+      to: parsed.to.length > 0 ? parsed.to : message.envelopeTo,
+      subject: parsed.subject,
+      date: message.receivedAt,
+      size: message.raw.length
+    };
+  }
+
+  private toEmailData(message: InboxMessage): EmailData {
+    const parsed = this.mimeParser.parse(message.raw);
+    const htmlContent = this.mimeParser.htmlOrText(parsed.html, parsed.text);
+
+    return {
+      hasNewEmail: true,
+      emailId: message.id,
+      htmlContent,
+      textContent: parsed.text,
+      subject: parsed.subject || 'Test Email',
+      from: parsed.from || message.envelopeFrom,
+      to: parsed.to.length > 0 ? parsed.to : message.envelopeTo
+    };
+  }
+}
@@ -0,0 +1,122 @@
+import zlib from 'zlib';
+import { ArchiveEntry } from '@/types';
+
+export interface ZipLimits {
+  maxEntries: number;
+  maxEntrySize: number;
+  maxTotalSize: number;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_FILE_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// Fixed end record plus the longest possible archive comment
+const MAX_END_RECORD_SEARCH = 22 + 0xffff;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_ENCRYPTED = 0x1;
+const FLAG_UTF8 = 0x800;
+
+export class ZipReader {
+  /**
+   * Reads the files of a zip archive from its central directory. Stored and
+   * deflated entries are supported; encrypted entries and ZIP64 archives are
+   * not. Sizes are checked against `limits` before and while inflating, so an
+   * archive cannot expand past them.
+   */
+  read(buffer: Buffer, limits: ZipLimits): ArchiveEntry[] {
+    const end = this.findEndRecord(buffer);
+    const entryCount = buffer.readUInt16LE(end + 10);
+    const directoryOffset = buffer.readUInt32LE(end + 16);
+
+    if (entryCount === 0xffff || directoryOffset === 0xffffffff) {
+      throw new Error('ZIP64 archives are not supported');
+    }
+
+    const entries: ArchiveEntry[] = [];
+    let totalSize = 0;
+    let offset = directoryOffset;
+
+    for (let i = 0; i < entryCount; i++) {
+      if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_FILE_HEADER) {
+        throw new Error('Corrupt zip central directory');
+      }
+
+      const flags = buffer.readUInt16LE(offset + 8);
+      const method = buffer.readUInt16LE(offset + 10);
+      const compressedSize = buffer.readUInt32LE(offset + 20);
+      const size = buffer.readUInt32LE(offset + 24);
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+      const localOffset = buffer.readUInt32LE(offset + 42);
+      const nameBytes = buffer.subarray(offset + 46, offset + 46 + nameLength);
+      // Names without the UTF-8 flag are CP437; latin1 keeps ASCII names intact
+      const name = nameBytes.toString(flags & FLAG_UTF8 ? 'utf-8' : 'latin1');
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      if (name.endsWith('/')) continue;
+
+      if (entries.length >= limits.maxEntries) {
+        throw new Error(`Archive has more than ${limits.maxEntries} files`);
+      }
+      if (flags & FLAG_ENCRYPTED) {
+        throw new Error(`Encrypted archive entries are not supported: ${name}`);
+      }
+      if (size > limits.maxEntrySize) {
+        throw new Error(`Archive entry exceeds ${limits.maxEntrySize} bytes: ${name}`);
+      }
+      totalSize += size;
+      if (totalSize > limits.maxTotalSize) {
+        throw new Error(`Archive contents exceed ${limits.maxTotalSize} bytes`);
+      }
+
+      const data = this.readEntry(buffer, localOffset, method, compressedSize, size, name);
+      entries.push({ name, data });
+    }
+
+    return entries;
+  }
+
+  private findEndRecord(buffer: Buffer): number {
+    const stop = Math.max(0, buffer.length - MAX_END_RECORD_SEARCH);
+    for (let offset = buffer.length - 22; offset >= stop; offset--) {
+      if (buffer.readUInt32LE(offset) === END_OF_CENTRAL_DIRECTORY) {
+        return offset;
+      }
+    }
+    throw new Error('Not a zip archive');
+  }
+
+  private readEntry(buffer: Buffer, localOffset: number, method: number, compressedSize: number, size: number, name: string): Buffer {
+    if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupt zip entry: ${name}`);
+    }
+
+    // Sizes come from the central directory; local headers may defer them to a data descriptor
+    const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+    if (dataStart + compressedSize > buffer.length) {
+      throw new Error(`Truncated zip entry: ${name}`);
+    }
+    const compressed = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Buffer;
+    if (method === METHOD_STORED) {
+      data = compressed;
+    } else if (method === METHOD_DEFLATE) {
+      try {
+        data = zlib.inflateRawSync(compressed, { maxOutputLength: Math.max(size, 1) });
+      } catch (error) {
+        throw new Error(`Corrupt zip entry: ${name}`);
+      }
+    } else {
+      throw new Error(`Unsupported compression method ${method}: ${name}`);
+    }
+
+    if (data.length !== size) {
+      throw new Error(`Corrupt zip entry: ${name}`);
+    }
+    return data;
+  }
+}
@@ -4,7 +4,55 @@ export interface EmailSample {
   file: string;
   description: string;
   features: string[];
+  /** Number of rules the sample violates, not the number of failing elements. */
   violationsExpected: number;
+  /** Rule ids the sample must violate, checked by the sample verification. */
+  rulesExpected?: string[];
+  tags?: string[];
+}
+
+/** Body of a sample create or update; `file` is always assigned by the server. */
+export interface SampleInput {
+  name?: string;
+  description?: string;
+  features?: string[];
+  violationsExpected?: number;
+  rulesExpected?: string[];
+  tags?: string[];
+  html?: string;
+}
+
+export interface SampleVerificationResult {
+  id: string;
+  name: string;
+  passed: boolean;
+  violationsExpected: number;
+  violationsActual: number;
+  rulesExpected?: string[];
+  rulesActual: string[];
+  /** Expected rules the scan did not report. */
+  missingRules: string[];
+  /** Reported rules missing from `rulesExpected`. */
+  unexpectedRules: string[];
+  durationMs: number;
+  error?: string;
+}
+
+export interface SampleVerificationReport {
+  passed: boolean;
+  total: number;
+  passedCount: number;
+  failedCount: number;
+  /** Allowed difference between expected and actual violation counts. */
+  tolerance: number;
+  results: SampleVerificationResult[];
+  timestamp: string;
+}
+
+export interface SampleQuery {
+  tag?: string;
+  /** Matched against the name, description and features. */
+  q?: string;
 }
 
 export interface ScanResult {
@@ -13,6 +61,10 @@ export interface ScanResult {
   incomplete: AccessibilityIncomplete[];
   inapplicable: AccessibilityInapplicable[];
   sampleInfo?: EmailSample;
+  profile?: string;
+  colorModes?: ColorMode[];
+  /** Number of node screenshots stored with the scan. */
+  screenshotCount?: number;
   error?: string;
 }
 
@@ -24,6 +76,7 @@ export interface AccessibilityViolation {
   help: string;
   helpUrl: string;
   nodes: AccessibilityNode[];
+  modes?: ColorMode[];
 }
 
 export interface AccessibilityPass {
@@ -40,6 +93,7 @@ export interface AccessibilityIncomplete {
   tags: string[];
   description: string;
   nodes: AccessibilityNode[];
+  modes?: ColorMode[];
 }
 
 export interface AccessibilityInapplicable {
@@ -54,23 +108,451 @@ export interface AccessibilityNode {
   target: string[];
   html: string;
   failureSummary?: string;
+  modes?: ColorMode[];
+  /** Index of the highlighted screenshot of this node, when one was captured. */
+  screenshotIndex?: number;
 }
 
 export interface EmailData {
   hasNewEmail: boolean;
   emailId?: string;
   htmlContent?: string;
+  textContent?: string;
   subject?: string;
+  from?: string;
+  to?: string[];
+}
+
+export interface EmailSummary {
+  id: string;
+  from: string;
+  to: string[];
+  subject: string;
+  date: string;
+  size: number;
+}
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  size: number;
+  contentId?: string;
+}
+
+export interface MimeAttachment extends EmailAttachment {
+  inline: boolean;
+  content: Buffer;
+}
+
+export interface MimeFormFile {
+  field: string;
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface ParsedMimeMessage {
+  headers: Record<string, string[]>;
+  messageId?: string;
+  from: string;
+  to: string[];
+  cc: string[];
+  subject: string;
+  date: string;
+  html: string;
+  text: string;
+  attachments: MimeAttachment[];
+}
+
+export interface ParsedEmailMessage extends EmailSummary {
+  headers: Record<string, string[]>;
+  html: string;
+  text: string;
+  attachments: EmailAttachment[];
+}
+
+/**
+ * An uploaded .eml, shaped like the `EmailData` of inbox messages plus the
+ * parsed headers and attachments.
+ */
+export interface UploadedEmail extends EmailData {
+  filename: string;
+  messageId?: string;
+  cc: string[];
+  date: string;
+  headers: Record<string, string[]>;
+  attachments: (EmailAttachment & { inline: boolean })[];
+}
+
+export interface UploadedEmailScan extends UploadedEmail {
+  result?: ScanResult;
+  metadata?: {
+    scanId?: string;
+    score?: AccessibilityScore;
+    scanDuration: number;
+    htmlLength: number;
+    axeOptions?: ResolvedAxeOptions;
+  };
+  error?: string;
+}
+
+export interface EmailListQuery {
+  start: number;
+  limit: number;
+  from?: string;
+  to?: string;
+  subject?: string;
+}
+
+export interface EmailListResponse {
+  total: number;
+  start: number;
+  count: number;
+  items: EmailSummary[];
 }
 
-export interface ScanRequest {
+export interface ScanRequest extends AxeRunOptions {
   html: string;
   sendEmail?: boolean;
+  profiles?: string[];
+  colorModes?: ColorMode[];
+  plainText?: string;
+  axeOptions?: ResolvedAxeOptions;
+  /** Report email recipients; DEFAULT_TO_EMAIL when omitted. */
+  recipients?: string[];
+  cc?: string[];
+  reportTemplate?: ReportTemplate;
+  /** Capture a full-page screenshot and a highlighted image per violating node. */
+  screenshots?: boolean;
 }
 
+export interface ViolationScreenshots {
+  fullPage: Buffer;
+  /** PNG images, indexed by `AccessibilityNode.screenshotIndex`. */
+  nodes: Buffer[];
+}
+
+export interface ScanOutput {
+  result: ScanResult;
+  screenshots?: ViolationScreenshots;
+}
+
+export type ReportTemplate = 'summary' | 'detailed';
+
+export interface OutgoingEmail {
+  to: string[];
+  cc?: string[];
+  subject: string;
+  html: string;
+  text?: string;
+  attachments?: OutgoingAttachment[];
+}
+
+export interface OutgoingAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+  /** Content-ID for inline images referenced as `cid:` in the HTML. */
+  cid?: string;
+}
+
+export type WcagLevel = 'A' | 'AA' | 'AAA';
+
+export type WcagVersion = '2.0' | '2.1' | '2.2';
+
+export interface AxeRunOptions {
+  preset?: string;
+  wcagLevel?: WcagLevel;
+  wcagVersion?: WcagVersion;
+  includeRules?: string[];
+  excludeRules?: string[];
+  selector?: string;
+}
+
+export interface ResolvedAxeOptions extends AxeRunOptions {
+  tags?: string[];
+}
+
+export interface RulePreset {
+  description?: string;
+  wcagLevel?: WcagLevel;
+  wcagVersion?: WcagVersion;
+  includeRules?: string[];
+  excludeRules?: string[];
+}
+
+export type ColorMode = 'light' | 'dark' | 'inverted';
+
 export interface EmailResponse {
   hasNewEmail: boolean;
   emailId?: string;
   htmlContent?: string;
   subject?: string;
 }
+
+export interface BrowserPoolStats {
+  size: number;
+  maxSize: number;
+  busy: number;
+  idle: number;
+  queueDepth: number;
+}
+
+export type ScanJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type ScanJobPriority = 'low' | 'normal' | 'high';
+
+export interface ScanJobRequest extends ScanRequest {
+  priority?: ScanJobPriority;
+  timeoutMs?: number;
+  maxRetries?: number;
+}
+
+export interface ScanJob {
+  id: string;
+  status: ScanJobStatus;
+  priority: ScanJobPriority;
+  request: ScanRequest;
+  attempts: number;
+  maxRetries: number;
+  timeoutMs: number;
+  result?: ScanResult;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  durationMs?: number;
+}
+
+export type ScanSource = 'api' | 'job' | 'email' | 'cli' | 'batch' | 'upload';
+
+export interface ScanHistoryRecord {
+  id: string;
+  createdAt: string;
+  source: ScanSource;
+  durationMs: number;
+  htmlHash: string;
+  htmlLength: number;
+  emailId?: string;
+  subject?: string;
+  /** Scanned file path, for scans run from the CLI. */
+  file?: string;
+  result: ScanResult;
+}
+
+export interface ScanHistorySummary {
+  id: string;
+  createdAt: string;
+  source: ScanSource;
+  durationMs: number;
+  htmlHash: string;
+  emailId?: string;
+  subject?: string;
+  violationsCount: number;
+  ruleIds: string[];
+  impacts: string[];
+  error?: string;
+}
+
+export interface ScanHistoryQuery {
+  from?: Date;
+  to?: Date;
+  subject?: string;
+  ruleId?: string;
+  impact?: string;
+  page: number;
+  pageSize: number;
+}
+
+export interface ScanHistoryPage {
+  items: ScanHistorySummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+  totalPages: number;
+}
+
+export interface ScanDiffRequest {
+  baseHtml?: string;
+  headHtml?: string;
+  baseScanId?: string;
+  headScanId?: string;
+  sendEmail?: boolean;
+  recipients?: string[];
+  cc?: string[];
+}
+
+export interface ScanFixRequest extends AxeRunOptions {
+  html: string;
+}
+
+export interface FixSuggestion {
+  ruleId: string;
+  target: string[];
+  /** What the change does, e.g. "Add alt text derived from the image file name". */
+  description: string;
+  /** Source markup that is replaced, and its replacement. */
+  before: string;
+  after: string;
+  applied: boolean;
+  /** The value is a guess from the surrounding markup and should be reviewed. */
+  needsReview: boolean;
+  /** Whether the rescan no longer reports this node; unset when not applied. */
+  verified?: boolean;
+  reason?: string;
+}
+
+export interface ScanFixResult {
+  suggestions: FixSuggestion[];
+  patchedHtml: string;
+  /** Unified diff from the original to the patched HTML. */
+  diff: string;
+  verification: {
+    violationsBefore: number;
+    violationsAfter: number;
+    verified: number;
+    unresolved: number;
+    skipped: number;
+  };
+  /** Scan of the patched HTML. */
+  result: ScanResult;
+}
+
+export interface BatchScanItem {
+  name: string;
+  html: string;
+  plainText?: string;
+  subject?: string;
+}
+
+export interface BatchScanRequest extends AxeRunOptions {
+  items: { name: string; html: string }[];
+  concurrency?: number;
+  stream?: boolean;
+}
+
+export interface BatchItemResult {
+  index: number;
+  name: string;
+  status: 'completed' | 'failed';
+  /** History id; the full result and reports are under /api/scans/:id/report. */
+  scanId?: string;
+  score?: AccessibilityScore;
+  violations: { ruleId: string; impact: string; nodes: number }[];
+  durationMs: number;
+  error?: string;
+}
+
+export interface BatchRuleSummary {
+  ruleId: string;
+  impact: string;
+  help: string;
+  helpUrl: string;
+  /** Number of items violating the rule, and the share of scanned items. */
+  items: number;
+  share: number;
+  nodes: number;
+}
+
+export interface BatchScanSummary {
+  total: number;
+  completed: number;
+  failed: number;
+  itemsWithViolations: number;
+  averageScore: number | null;
+  violationsByImpact: Record<ImpactLevel, number>;
+  /** Violated rules, most widespread first. */
+  topRules: BatchRuleSummary[];
+}
+
+export interface BatchScanResult {
+  items: BatchItemResult[];
+  summary: BatchScanSummary;
+  /** Archive entries that were not scanned, with the reason. */
+  skipped: { name: string; reason: string }[];
+  concurrency: number;
+  durationMs: number;
+  timestamp: string;
+}
+
+export interface BatchScanProgress {
+  completed: number;
+  total: number;
+  item: BatchItemResult;
+}
+
+export interface ArchiveEntry {
+  name: string;
+  data: Buffer;
+}
+
+export interface ViolationDiffEntry {
+  ruleId: string;
+  impact: string;
+  description: string;
+  help: string;
+  helpUrl: string;
+  fingerprint: string;
+  node: AccessibilityNode;
+}
+
+export interface ScanDiff {
+  new: ViolationDiffEntry[];
+  fixed: ViolationDiffEntry[];
+  unchanged: ViolationDiffEntry[];
+  summary: {
+    new: number;
+    fixed: number;
+    unchanged: number;
+  };
+}
+
+export interface InboxMessage {
+  id: string;
+  receivedAt: string;
+  envelopeFrom: string;
+  envelopeTo: string[];
+  raw: Buffer;
+}
+
+export interface InboundEmail {
+  id: string;
+  from: string;
+  to: string[];
+  subject: string;
+  html: string;
+  text?: string;
+}
+
+export type ImpactLevel = 'critical' | 'serious' | 'moderate' | 'minor';
+
+export interface ScoringConfig {
+  /** Points deducted for a violated rule with a single affected node. */
+  impactWeights: Record<ImpactLevel, number>;
+  /** Extra share of the impact weight deducted for every further affected node. */
+  nodeWeight: number;
+  /** Affected nodes beyond this count do not lower the score further. */
+  maxNodesPerRule: number;
+  /** Checked in order; the first grade whose minScore is reached wins. */
+  grades: { grade: string; minScore: number }[];
+}
+
+export interface ImpactScoreBreakdown {
+  violations: number;
+  nodes: number;
+  penalty: number;
+}
+
+export interface AccessibilityScore {
+  score: number;
+  grade: string;
+  breakdown: Record<ImpactLevel, ImpactScoreBreakdown>;
+}
+
+export type ReportFormat = 'html' | 'pdf' | 'json' | 'csv' | 'sarif' | 'junit';
+
+export interface RenderedReport {
+  contentType: string;
+  fileName: string;
+  body: Buffer | string;
+}
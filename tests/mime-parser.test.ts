@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'path';
+import { MimeParser } from '@/services/MimeParser';
+
+const parser = new MimeParser();
+const fixture = (name: string) => parser.parse(fs.readFileSync(path.join(__dirname, 'eml-samples', name)));
+
+describe('MimeParser', () => {
+  it('decodes quoted-printable UTF-8 parts of a multipart/alternative', () => {
+    const message = fixture('multipart-alternative-quoted-printable.eml');
+
+    expect(message.subject).toBe('Grüße aus München – Oktober');
+    expect(message.from).toBe('"Müller, Anna" <anna@example.com>');
+    expect(message.to).toEqual(['reader@example.com', '"Second, Reader" <second@example.com>']);
+    expect(message.messageId).toBe('alt-qp-001@example.com');
+    expect(message.html).toContain('<html lang="de">');
+    expect(message.html).toContain('<h1>Grüße aus München – Oktober‑Ausgabe</h1>');
+    expect(message.html).toContain('<a href="https://example.com/angebote">Zu den Angeboten</a>');
+    expect(message.html).not.toMatch(/=3D|=C3/);
+    expect(message.text).toContain('Schöne Angebote für Sie: 20 % Rabatt auf alle Bücher.');
+    expect(message.attachments).toEqual([]);
+  });
+
+  it('decodes a base64 single part in ISO-8859-15', () => {
+    const message = fixture('single-part-latin1-base64.eml');
+
+    expect(message.subject).toBe('Café news');
+    expect(message.html).toContain('<title>Café news</title>');
+    // 0xA4 is the euro sign in ISO-8859-15, not the currency sign of ISO-8859-1
+    expect(message.html).toContain('<p>Bienvenue au café! Crème brûlée à 5 €.</p>');
+  });
+
+  it('embeds inline images referenced by cid: as data URIs', () => {
+    const message = fixture('multipart-related-inline-image.eml');
+    const logo = message.attachments.find(attachment => attachment.contentId === 'logo@example.com')!;
+
+    expect(message.html).not.toContain('cid:');
+    expect(message.html).toContain(`<img src="data:image/png;base64,${logo.content.toString('base64')}" alt="Example Shop">`);
+    expect(message.text).toBe('Thank you for your order #1042.\r\nhttps://example.com/orders/1042\r\n');
+    expect(logo).toEqual(expect.objectContaining({ filename: 'logo.png', contentType: 'image/png', inline: true }));
+    expect(message.attachments[1]).toEqual(expect.objectContaining({
+      filename: 'Rechnung März.pdf',
+      contentType: 'application/pdf',
+      inline: false
+    }));
+  });
+
+  it('matches content ids that are not valid URI escapes as written', () => {
+    const raw = [
+      'Subject: Sale',
+      'MIME-Version: 1.0',
+      'Content-Type: multipart/related; boundary="rel"',
+      '',
+      '--rel',
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      '<img src="cid:50%off" alt="50% off"><img src="cid:missing%zz" alt="">',
+      '--rel',
+      'Content-Type: image/gif',
+      'Content-ID: <50%off>',
+      'Content-Transfer-Encoding: base64',
+      '',
+      'R0lGODlhAQABAAAAACw=',
+      '--rel--',
+      ''
+    ].join('\r\n');
+
+    const message = parser.parse(raw);
+
+    expect(message.html).toBe('<img src="data:image/gif;base64,R0lGODlhAQABAAAAACw=" alt="50% off"><img src="cid:missing%zz" alt="">');
+  });
+
+  it('falls back to the escaped text part when a message has no HTML', () => {
+    expect(parser.htmlOrText('<p>Hi</p>', 'Hi')).toBe('<p>Hi</p>');
+    expect(parser.htmlOrText(' ', 'Tom & <Jerry>\r\nBye')).toBe('<html><body><pre>Tom &amp; &lt;Jerry&gt;<br>Bye</pre></body></html>');
+    expect(parser.htmlOrText('', ' ')).toBe('');
+  });
+
+  it.each([
+    // `--part--alt` also starts like the parent's closing delimiter `--part--`
+    ['the parent boundary is a prefix of the nested one', 'part', 'part--alt'],
+    ['the nested boundary is a prefix of the parent one', 'part-outer', 'part']
+  ])('splits nested multiparts when %s', (_, outer, inner) => {
+    const raw = [
+      'Subject: Nested',
+      'MIME-Version: 1.0',
+      `Content-Type: multipart/mixed; boundary="${outer}"`,
+      '',
+      `--${outer}`,
+      `Content-Type: multipart/alternative; boundary="${inner}"`,
+      '',
+      `--${inner}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      'Plain body',
+      `--${inner}`,
+      'Content-Type: text/html; charset=utf-8',
+      '',
+      '<p>HTML body</p>',
+      `--${inner}--`,
+      '',
+      `--${outer}`,
+      'Content-Type: text/csv; name="data.csv"',
+      'Content-Disposition: attachment; filename="data.csv"',
+      '',
+      'a,b',
+      `--${outer}--`,
+      ''
+    ].join('\r\n');
+
+    const message = parser.parse(raw);
+
+    expect(message.text).toBe('Plain body');
+    expect(message.html).toBe('<p>HTML body</p>');
+    expect(message.attachments.map(attachment => [attachment.filename, attachment.content.toString()])).toEqual([['data.csv', 'a,b']]);
+  });
+});
@@ -0,0 +1,157 @@
+import fs from 'fs';
+import path from 'path';
+import { BrowserPool } from '@/services/BrowserPool';
+import { ReportService } from '@/services/ReportService';
+import { ScanHistoryRecord } from '@/types';
+
+const record: ScanHistoryRecord = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures/basic-scan-record.json'), 'utf-8'));
+const html = fs.readFileSync(path.join(__dirname, 'email-samples/basic-accessibility-issues.html'), 'utf-8');
+
+// Stands in for Chromium: records the printed HTML and returns a minimal PDF
+const printed: string[] = [];
+const browserPool = {
+  withContext: async (task: (context: unknown) => Promise<unknown>) => task({
+    newPage: async () => ({
+      setContent: async (content: string) => { printed.push(content); },
+      pdf: async () => Buffer.from('%PDF-1.4\n%%EOF\n')
+    })
+  })
+} as unknown as BrowserPool;
+
+const reportService = new ReportService(browserPool);
+
+/** Reads RFC 4180 CSV: quoted fields may hold commas, doubled quotes and line breaks. */
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\r' && text[i + 1] === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      i++;
+    } else {
+      field += char;
+    }
+  }
+
+  return rows;
+}
+
+describe('ReportService formats', () => {
+  it('renders json with the score, counts and full result', async () => {
+    const report = await reportService.render('json', record, html);
+    const body = JSON.parse(report.body as string);
+
+    expect(report.contentType).toBe('application/json; charset=utf-8');
+    expect(report.fileName).toBe(`accessibility-report-${record.id}.json`);
+    expect(body.summary).toEqual({ violations: 2, passes: 1, incomplete: 1, inapplicable: 0 });
+    expect(body.score).toEqual(expect.objectContaining({ score: expect.any(Number), grade: expect.any(String) }));
+    expect(body.result).toEqual(record.result);
+  });
+
+  it('renders csv with one row per node and quoted fields', async () => {
+    const report = await reportService.render('csv', record, html);
+    const rows = parseCsv(report.body as string);
+
+    expect(report.contentType).toBe('text/csv; charset=utf-8');
+    expect((report.body as string).endsWith('\r\n')).toBe(true);
+    expect(rows[0]).toEqual(['rule_id', 'impact', 'description', 'help', 'help_url', 'target', 'html', 'failure_summary', 'modes']);
+    expect(rows).toHaveLength(5);
+    expect(rows.every(row => row.length === 9)).toBe(true);
+
+    // Commas, quotes and line breaks survive quoting
+    expect(rows[1][6]).toBe('<img src="logo.png">');
+    expect(rows[1][7]).toBe('Fix any of the following:\n  Element does not have an alt attribute, "title" is empty');
+    // Formula-like cells are prefixed so spreadsheets show them as text
+    expect(rows[3][7]).toBe('\'=HYPERLINK("http://example.com")');
+  });
+
+  it('renders junit with escaped XML', async () => {
+    const report = await reportService.render('junit', record, html);
+    const body = report.body as string;
+
+    expect(report.contentType).toBe('application/xml; charset=utf-8');
+    expect(body).toContain('<testsuites name="AccessTime" tests="4" failures="2" errors="0" skipped="1" time="1.234">');
+    expect(body).toContain('name="Accessibility scan 5b0e7a52-4a0c-4d5e-9d7e-2f4b1c3a9e10 - Basic &lt;Accessibility&gt; &amp; &quot;Issues&quot;"');
+    expect(body).toContain('<failure message="Links must have discernible text &amp; a purpose" type="serious">');
+    expect(body).toContain('Ensures &lt;img&gt; elements have alternate text');
+    expect(body).toContain('&quot;title&quot; is empty');
+    // Control characters are not allowed in XML 1.0
+    expect(body).not.toContain('\u0007');
+    expect(body).toContain('<skipped message="Requires manual review"/>');
+    expect(body.replace(/<\/?[a-z?][^>]*>/gi, '')).not.toMatch(/[<>]/);
+  });
+
+  it('renders sarif with rule indexes, source regions and stable fingerprints', async () => {
+    const report = await reportService.render('sarif', record, html);
+    const run = JSON.parse(report.body as string).runs[0];
+    const rules = run.tool.driver.rules;
+
+    expect(report.contentType).toBe('application/sarif+json; charset=utf-8');
+    expect(rules.map((rule: { id: string }) => rule.id)).toEqual(['image-alt', 'link-name']);
+    expect(run.results).toHaveLength(4);
+    run.results.forEach((result: { ruleId: string; ruleIndex: number }) => {
+      expect(rules[result.ruleIndex].id).toBe(result.ruleId);
+    });
+
+    const regions = run.results.map((result: any) => result.locations[0].physicalLocation.region);
+    expect(regions.map((region: any) => [region.startLine, region.startColumn])).toEqual([[12, 5], [13, 5], [34, 7], [35, 7]]);
+    expect(regions[0].snippet).toEqual({ text: '<img src="logo.png">' });
+
+    const fingerprints = run.results.map((result: any) => result.partialFingerprints.accessTimeViolation);
+    expect(new Set(fingerprints).size).toBe(4);
+
+    // Fingerprints depend on the rule and node only, not on the scan they come from
+    const rescan: ScanHistoryRecord = { ...record, id: 'another-scan', createdAt: '2025-11-01T08:00:00.000Z' };
+    const rerun = JSON.parse((await reportService.render('sarif', rescan, html)).body as string).runs[0];
+    expect(rerun.results.map((result: any) => result.partialFingerprints.accessTimeViolation)).toEqual(fingerprints);
+  });
+
+  it('locates files relative to %SRCROOT%', async () => {
+    const file = path.join(__dirname, 'email-samples/basic-accessibility-issues.html');
+    const run = JSON.parse(reportService.renderSarifLog([{ record, html }, { record: { ...record, file }, html }])).runs[0];
+
+    expect(run.originalUriBaseIds['%SRCROOT%'].uri).toBe(`file://${process.cwd()}/`);
+    expect(run.artifacts.map((artifact: any) => artifact.location)).toEqual([
+      { uri: `scans/${record.id}.html` },
+      { uri: 'tests/email-samples/basic-accessibility-issues.html', uriBaseId: '%SRCROOT%' }
+    ]);
+    expect(run.results[4].locations[0].physicalLocation.artifactLocation).toEqual({ ...run.artifacts[1].location, index: 1 });
+  });
+
+  it('keeps only the snippet when the stored HTML is missing', async () => {
+    const report = await reportService.render('sarif', record, null);
+    const region = JSON.parse(report.body as string).runs[0].results[0].locations[0].physicalLocation.region;
+
+    expect(region).toEqual({ snippet: { text: '<img src="logo.png">' } });
+  });
+
+  it('renders pdf from the HTML report', async () => {
+    const report = await reportService.render('pdf', record, html);
+
+    expect(report.contentType).toBe('application/pdf');
+    expect(report.fileName).toBe(`accessibility-report-${record.id}.pdf`);
+    expect((report.body as Buffer).subarray(0, 4).toString()).toBe('%PDF');
+    expect(printed[printed.length - 1]).toContain('image-alt');
+  });
+});
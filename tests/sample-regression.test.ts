@@ -0,0 +1,39 @@
+import fs from 'fs';
+import path from 'path';
+import { chromium } from 'playwright';
+import { getBrowserPool } from '@/services/BrowserPool';
+import { SampleVerificationService } from '@/services/SampleVerificationService';
+import { EmailSample, SampleVerificationReport } from '@/types';
+
+// Guards against axe-core or Playwright upgrades changing what the scanner
+// detects: every sample must still match its declared expectations
+const samples: EmailSample[] = JSON.parse(fs.readFileSync(path.join(__dirname, 'index.json'), 'utf-8')).emailSamples;
+const hasBrowser = fs.existsSync(chromium.executablePath());
+const describeWithBrowser = hasBrowser ? describe : describe.skip;
+
+if (!hasBrowser) {
+  console.warn('Sample regression suite skipped: run `npx playwright install chromium` first');
+}
+
+describeWithBrowser('sample regression', () => {
+  let report: SampleVerificationReport;
+
+  beforeAll(async () => {
+    report = await new SampleVerificationService().verify(samples);
+  }, 300000);
+
+  afterAll(async () => {
+    await getBrowserPool().shutdown();
+  });
+
+  it('scans every sample in tests/index.json', () => {
+    expect(report.results.map(result => result.id)).toEqual(samples.map(sample => sample.id));
+  });
+
+  it.each(samples.map(sample => [sample.id]))('%s matches its expected violations', id => {
+    const result = report.results.find(entry => entry.id === id)!;
+
+    // The whole result is printed on failure, with the actual counts and rules
+    expect(result).toEqual(expect.objectContaining({ passed: true, error: undefined }));
+  });
+});